@@ -3,16 +3,60 @@
  * Handles environment variables with validation and type safety
  */
 
+import os from "node:os";
+import path from "node:path";
+import type {
+  CacheStoreType,
+  CircuitBreakerScope,
+  HistoryStoreType,
+} from "../types/index.js";
+
 export interface IConfig {
   readonly openRouterApiKey: string;
   readonly rateLimitPerMinute: number;
+  readonly rateLimitTokensPerMinute: number;
   readonly cacheTtlSeconds: number;
+  readonly cacheStore: CacheStoreType;
+  readonly cacheDir: string;
+  readonly cacheMaxMb: number;
+  readonly fuzzyCache: boolean;
+  readonly fuzzyCacheThreshold: number;
+  readonly maxHistoryTokens: number;
   readonly maxConversationHistory: number;
+  readonly completionTokenReserve: number;
+  readonly historyStore: HistoryStoreType;
+  readonly historyDir: string;
   readonly circuitBreakerTimeout: number;
   readonly circuitBreakerThreshold: number;
   readonly circuitBreakerResetTimeout: number;
+  readonly circuitBreakerScope: CircuitBreakerScope;
   readonly retryAttempts: number;
+  readonly retryBaseDelayMs: number;
+  readonly retryMaxTotalMs: number;
   readonly verboseLogging: boolean;
+  readonly modelRegistryFile: string | undefined;
+  readonly personasFile: string | undefined;
+  readonly promptTemplatesDir: string | undefined;
+  readonly fileRoots: string[];
+  readonly fileMaxKb: number;
+  readonly filesTotalMaxKb: number;
+  readonly diffMaxFiles: number;
+  readonly diffChunkMaxKb: number;
+  readonly modelCatalogSync: boolean;
+  readonly modelCatalogFile: string;
+  readonly modelCatalogMaxAgeHours: number;
+  readonly modelCatalogInclude: string[];
+  readonly multiModelConcurrency: number;
+  readonly modelTimeoutMs: number;
+  readonly schemaRepairAttempts: number;
+  readonly dailySpendLimitUsd: number;
+  readonly monthlySpendLimitUsd: number;
+  readonly usageFile: string | undefined;
+  readonly openAiCompatibleBaseUrl: string | undefined;
+  readonly openAiCompatibleApiKey: string | undefined;
+  readonly anthropicApiKey: string | undefined;
+  readonly anthropicBaseUrl: string;
+  readonly ollamaBaseUrl: string;
 }
 
 export class Config implements IConfig {
@@ -20,13 +64,49 @@ export class Config implements IConfig {
 
   public readonly openRouterApiKey: string;
   public readonly rateLimitPerMinute: number;
+  public readonly rateLimitTokensPerMinute: number;
   public readonly cacheTtlSeconds: number;
+  public readonly cacheStore: CacheStoreType;
+  public readonly cacheDir: string;
+  public readonly cacheMaxMb: number;
+  public readonly fuzzyCache: boolean;
+  public readonly fuzzyCacheThreshold: number;
+  public readonly maxHistoryTokens: number;
   public readonly maxConversationHistory: number;
+  public readonly completionTokenReserve: number;
+  public readonly historyStore: HistoryStoreType;
+  public readonly historyDir: string;
   public readonly circuitBreakerTimeout: number;
   public readonly circuitBreakerThreshold: number;
   public readonly circuitBreakerResetTimeout: number;
+  public readonly circuitBreakerScope: CircuitBreakerScope;
   public readonly retryAttempts: number;
+  public readonly retryBaseDelayMs: number;
+  public readonly retryMaxTotalMs: number;
   public readonly verboseLogging: boolean;
+  public readonly modelRegistryFile: string | undefined;
+  public readonly personasFile: string | undefined;
+  public readonly promptTemplatesDir: string | undefined;
+  public readonly fileRoots: string[];
+  public readonly fileMaxKb: number;
+  public readonly filesTotalMaxKb: number;
+  public readonly diffMaxFiles: number;
+  public readonly diffChunkMaxKb: number;
+  public readonly modelCatalogSync: boolean;
+  public readonly modelCatalogFile: string;
+  public readonly modelCatalogMaxAgeHours: number;
+  public readonly modelCatalogInclude: string[];
+  public readonly multiModelConcurrency: number;
+  public readonly modelTimeoutMs: number;
+  public readonly schemaRepairAttempts: number;
+  public readonly dailySpendLimitUsd: number;
+  public readonly monthlySpendLimitUsd: number;
+  public readonly usageFile: string | undefined;
+  public readonly openAiCompatibleBaseUrl: string | undefined;
+  public readonly openAiCompatibleApiKey: string | undefined;
+  public readonly anthropicApiKey: string | undefined;
+  public readonly anthropicBaseUrl: string;
+  public readonly ollamaBaseUrl: string;
 
   private constructor() {
     // Validate required environment variables
@@ -34,11 +114,37 @@ export class Config implements IConfig {
 
     // Optional environment variables with defaults
     this.rateLimitPerMinute = this.getNumberEnv("RATE_LIMIT_PER_MINUTE", 20);
+    this.rateLimitTokensPerMinute = this.getNumberEnv(
+      "RATE_LIMIT_TOKENS_PER_MINUTE",
+      0,
+    );
     this.cacheTtlSeconds = this.getNumberEnv("CACHE_TTL_SECONDS", 300);
-    this.maxConversationHistory = this.getNumberEnv(
-      "MAX_CONVERSATION_HISTORY",
-      20,
+    this.cacheStore = this.getEnumEnv<CacheStoreType>(
+      "CACHE_STORE",
+      ["memory", "disk"],
+      "memory",
+    );
+    this.cacheDir =
+      this.getOptionalEnv("CACHE_DIR") ||
+      path.join(os.homedir(), ".ai-consultant-mcp", "cache");
+    this.cacheMaxMb = this.getNumberEnv("CACHE_MAX_MB", 100);
+    this.fuzzyCache = this.getBooleanEnv("FUZZY_CACHE", false);
+    this.fuzzyCacheThreshold = this.getNumberEnv("FUZZY_CACHE_THRESHOLD", 0.9);
+    this.maxHistoryTokens = this.getNumberEnv("MAX_HISTORY_TOKENS", 200000);
+    // Message cap kept from before the token cap; 0 leaves only the token cap
+    this.maxConversationHistory = this.getNumberEnv("MAX_CONVERSATION_HISTORY", 0);
+    this.completionTokenReserve = this.getNumberEnv(
+      "COMPLETION_TOKEN_RESERVE",
+      8192,
     );
+    this.historyStore = this.getEnumEnv<HistoryStoreType>(
+      "HISTORY_STORE",
+      ["memory", "file"],
+      "memory",
+    );
+    this.historyDir =
+      this.getOptionalEnv("HISTORY_DIR") ||
+      path.join(os.homedir(), ".ai-consultant-mcp", "conversations");
     this.circuitBreakerTimeout = this.getNumberEnv(
       "CIRCUIT_BREAKER_TIMEOUT_MS",
       30000,
@@ -51,8 +157,66 @@ export class Config implements IConfig {
       "CIRCUIT_BREAKER_RESET_MS",
       30000,
     );
+    this.circuitBreakerScope = this.getEnumEnv<CircuitBreakerScope>(
+      "CIRCUIT_BREAKER_SCOPE",
+      ["model", "provider"],
+      "model",
+    );
     this.retryAttempts = this.getNumberEnv("RETRY_ATTEMPTS", 3);
+    this.retryBaseDelayMs = this.getNumberEnv("RETRY_BASE_DELAY_MS", 1000);
+    this.retryMaxTotalMs = this.getNumberEnv("RETRY_MAX_TOTAL_MS", 120000);
     this.verboseLogging = this.getBooleanEnv("VERBOSE_LOGGING", false);
+    this.modelRegistryFile = this.getOptionalEnv("MODEL_REGISTRY_FILE");
+    this.personasFile = this.getOptionalEnv("PERSONAS_FILE");
+    this.promptTemplatesDir = this.getOptionalEnv("PROMPT_TEMPLATES_DIR");
+
+    // File attachments and diff reviews are confined to these roots, and
+    // disabled when none are set
+    this.fileRoots = this.getListEnv("FILE_ROOTS");
+    this.fileMaxKb = this.getNumberEnv("FILE_MAX_KB", 256);
+    this.filesTotalMaxKb = this.getNumberEnv("FILES_TOTAL_MAX_KB", 1024);
+    this.diffMaxFiles = this.getNumberEnv("DIFF_MAX_FILES", 50);
+    this.diffChunkMaxKb = this.getNumberEnv("DIFF_CHUNK_MAX_KB", 48);
+
+    // OpenRouter model catalog sync
+    this.modelCatalogSync = this.getBooleanEnv("MODEL_CATALOG_SYNC", true);
+    this.modelCatalogFile =
+      this.getOptionalEnv("MODEL_CATALOG_FILE") ||
+      path.join(os.homedir(), ".ai-consultant-mcp", "openrouter-models.json");
+    this.modelCatalogMaxAgeHours = this.getNumberEnv(
+      "MODEL_CATALOG_MAX_AGE_HOURS",
+      24,
+    );
+    this.modelCatalogInclude = this.getListEnv("MODEL_CATALOG_INCLUDE");
+    this.multiModelConcurrency = this.getNumberEnv(
+      "MULTI_MODEL_CONCURRENCY",
+      3,
+    );
+    this.modelTimeoutMs = this.getNumberEnv("MODEL_TIMEOUT_MS", 120000);
+
+    // Follow-up requests asking a model to fix an answer that fails response_schema
+    this.schemaRepairAttempts = this.getNumberEnv("SCHEMA_REPAIR_ATTEMPTS", 2);
+
+    // Spend caps in USD (0 disables the cap)
+    this.dailySpendLimitUsd = this.getNumberEnv("DAILY_SPEND_LIMIT_USD", 0);
+    this.monthlySpendLimitUsd = this.getNumberEnv(
+      "MONTHLY_SPEND_LIMIT_USD",
+      0,
+    );
+    this.usageFile = this.getOptionalEnv("USAGE_FILE");
+
+    // Additional provider backends (OpenRouter is always available)
+    this.openAiCompatibleBaseUrl = this.getOptionalEnv(
+      "OPENAI_COMPATIBLE_BASE_URL",
+    );
+    this.openAiCompatibleApiKey = this.getOptionalEnv(
+      "OPENAI_COMPATIBLE_API_KEY",
+    );
+    this.anthropicApiKey = this.getOptionalEnv("ANTHROPIC_API_KEY");
+    this.anthropicBaseUrl =
+      this.getOptionalEnv("ANTHROPIC_BASE_URL") || "https://api.anthropic.com/v1";
+    this.ollamaBaseUrl =
+      this.getOptionalEnv("OLLAMA_BASE_URL") || "http://localhost:11434";
 
     this.validate();
   }
@@ -85,6 +249,52 @@ export class Config implements IConfig {
     return value;
   }
 
+  /**
+   * Get optional string environment variable
+   */
+  private getOptionalEnv(key: string): string | undefined {
+    const value = process.env[key];
+    return value ? value : undefined;
+  }
+
+  /**
+   * Get optional comma-separated list environment variable
+   */
+  private getListEnv(key: string): string[] {
+    const value = process.env[key];
+    if (!value) {
+      return [];
+    }
+    return value
+      .split(",")
+      .map((item) => item.trim())
+      .filter((item) => item.length > 0);
+  }
+
+  /**
+   * Get optional enum environment variable with default
+   */
+  private getEnumEnv<T extends string>(
+    key: string,
+    allowed: readonly T[],
+    defaultValue: T,
+  ): T {
+    const value = process.env[key];
+    if (!value) {
+      return defaultValue;
+    }
+
+    const lowerValue = value.toLowerCase() as T;
+    if (allowed.includes(lowerValue)) {
+      return lowerValue;
+    }
+
+    console.warn(
+      `Invalid value for ${key}: ${value}. Expected one of ${allowed.join(", ")}. Using default: ${defaultValue}`,
+    );
+    return defaultValue;
+  }
+
   /**
    * Get optional number environment variable with default
    */
@@ -136,20 +346,75 @@ export class Config implements IConfig {
       throw new Error("RATE_LIMIT_PER_MINUTE must be greater than 0");
     }
 
+    if (this.rateLimitTokensPerMinute < 0) {
+      throw new Error("RATE_LIMIT_TOKENS_PER_MINUTE must be non-negative");
+    }
+
     if (this.cacheTtlSeconds < 0) {
       throw new Error("CACHE_TTL_SECONDS must be non-negative");
     }
 
-    if (this.maxConversationHistory <= 0) {
-      throw new Error("MAX_CONVERSATION_HISTORY must be greater than 0");
+    if (this.cacheMaxMb <= 0) {
+      throw new Error("CACHE_MAX_MB must be greater than 0");
+    }
+
+    if (this.fuzzyCacheThreshold <= 0 || this.fuzzyCacheThreshold > 1) {
+      throw new Error("FUZZY_CACHE_THRESHOLD must be greater than 0 and at most 1");
+    }
+
+    if (this.fileMaxKb <= 0 || this.filesTotalMaxKb <= 0) {
+      throw new Error("FILE_MAX_KB and FILES_TOTAL_MAX_KB must be greater than 0");
+    }
+
+    if (this.diffMaxFiles < 1 || this.diffChunkMaxKb <= 0) {
+      throw new Error("DIFF_MAX_FILES must be at least 1 and DIFF_CHUNK_MAX_KB greater than 0");
+    }
+
+    if (this.maxHistoryTokens <= 0) {
+      throw new Error("MAX_HISTORY_TOKENS must be greater than 0");
+    }
+
+    if (
+      !Number.isInteger(this.maxConversationHistory) ||
+      this.maxConversationHistory < 0
+    ) {
+      throw new Error("MAX_CONVERSATION_HISTORY must be a non-negative integer");
+    }
+
+    if (this.completionTokenReserve < 0) {
+      throw new Error("COMPLETION_TOKEN_RESERVE must be non-negative");
     }
 
     if (this.circuitBreakerThreshold < 0 || this.circuitBreakerThreshold > 1) {
       throw new Error("CIRCUIT_BREAKER_THRESHOLD must be between 0 and 1");
     }
 
-    if (this.retryAttempts < 0) {
-      throw new Error("RETRY_ATTEMPTS must be non-negative");
+    if (this.modelCatalogMaxAgeHours < 0) {
+      throw new Error("MODEL_CATALOG_MAX_AGE_HOURS must be non-negative");
+    }
+
+    if (this.multiModelConcurrency < 1) {
+      throw new Error("MULTI_MODEL_CONCURRENCY must be at least 1");
+    }
+
+    if (this.modelTimeoutMs <= 0) {
+      throw new Error("MODEL_TIMEOUT_MS must be greater than 0");
+    }
+
+    if (!Number.isInteger(this.schemaRepairAttempts) || this.schemaRepairAttempts < 0) {
+      throw new Error("SCHEMA_REPAIR_ATTEMPTS must be a non-negative integer");
+    }
+
+    if (this.dailySpendLimitUsd < 0 || this.monthlySpendLimitUsd < 0) {
+      throw new Error("Spend limits must be non-negative");
+    }
+
+    if (!Number.isInteger(this.retryAttempts) || this.retryAttempts < 0) {
+      throw new Error("RETRY_ATTEMPTS must be a non-negative integer");
+    }
+
+    if (this.retryBaseDelayMs < 0 || this.retryMaxTotalMs < 0) {
+      throw new Error("RETRY_BASE_DELAY_MS and RETRY_MAX_TOTAL_MS must be non-negative");
     }
   }
 }
@@ -0,0 +1,51 @@
+/**
+ * Built-in model registry
+ * Used when no MODEL_REGISTRY_FILE is configured
+ */
+
+import type { ModelRegistry } from "../types/index.js";
+
+export const DEFAULT_MODEL_REGISTRY: ModelRegistry = {
+  defaultModel: "gpt-5-codex",
+  models: {
+    "gemini-2.5-pro": {
+      id: "google/gemini-2.5-pro",
+      description: "Google's Gemini 2.5 Pro with large context window",
+      bestFor: ["large context", "general purpose", "quick questions"],
+      contextLength: 1048576,
+      pricing: { prompt: 1.25, completion: 10 },
+      capabilities: {
+        structuredOutput: true,
+        reasoning: true,
+        inputModalities: ["text", "image", "file"],
+      },
+      fallbacks: ["gpt-5-codex", "grok-code-fast-1"],
+    },
+    "gpt-5-codex": {
+      id: "openai/gpt-5-codex",
+      description: "OpenAI's GPT-5 Codex, optimized for coding tasks",
+      bestFor: ["coding", "complex tasks", "large context", "debugging", "refactoring"],
+      contextLength: 400000,
+      pricing: { prompt: 1.25, completion: 10 },
+      capabilities: {
+        structuredOutput: true,
+        reasoning: true,
+        inputModalities: ["text", "image"],
+      },
+      fallbacks: ["gemini-2.5-pro", "grok-code-fast-1"],
+    },
+    "grok-code-fast-1": {
+      id: "x-ai/grok-code-fast-1",
+      description: "xAI's Grok Code Fast 1, optimized for code-related tasks",
+      bestFor: ["complex reasoning", "code review", "detailed analysis", "budget"],
+      contextLength: 256000,
+      pricing: { prompt: 0.2, completion: 1.5 },
+      capabilities: {
+        structuredOutput: true,
+        reasoning: true,
+        inputModalities: ["text"],
+      },
+      fallbacks: ["gpt-5-codex", "gemini-2.5-pro"],
+    },
+  },
+};
@@ -0,0 +1,63 @@
+/**
+ * Built-in prompt templates
+ * Published through the MCP prompts capability and the consult_ai `template` argument
+ */
+
+import type { PromptTemplateLibrary } from "../types/index.js";
+
+export const DEFAULT_PROMPT_TEMPLATES: PromptTemplateLibrary = {
+  "security-review": {
+    description: "Review code for security vulnerabilities",
+    arguments: [
+      { name: "code", description: "The code to review", required: true },
+      { name: "context", description: "What the code does and how it is deployed" },
+    ],
+    template: [
+      "Review the following code for security vulnerabilities.",
+      "",
+      "Context: {{context}}",
+      "",
+      "{{code}}",
+    ].join("\n"),
+    models: ["grok-code-fast-1", "gpt-5-codex"],
+    persona: "security-auditor",
+  },
+  "compare-approaches": {
+    description: "Compare two implementation approaches and recommend one",
+    arguments: [
+      { name: "approach_a", description: "The first approach", required: true },
+      { name: "approach_b", description: "The second approach", required: true },
+      { name: "requirements", description: "Requirements and constraints the choice must satisfy" },
+    ],
+    template: [
+      "Compare these two approaches and recommend one.",
+      "",
+      "Requirements: {{requirements}}",
+      "",
+      "## Approach A",
+      "",
+      "{{approach_a}}",
+      "",
+      "## Approach B",
+      "",
+      "{{approach_b}}",
+    ].join("\n"),
+    models: ["gemini-2.5-pro", "gpt-5-codex"],
+    persona: "architect",
+  },
+  "explain-error": {
+    description: "Explain an error message and suggest fixes",
+    arguments: [
+      { name: "error", description: "The error message or stack trace", required: true },
+      { name: "code", description: "The code that produced the error" },
+    ],
+    template: [
+      "Explain what causes this error and how to fix it.",
+      "",
+      "{{error}}",
+      "",
+      "{{code}}",
+    ].join("\n"),
+    models: ["gpt-5-codex"],
+  },
+};
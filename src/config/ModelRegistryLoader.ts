@@ -0,0 +1,289 @@
+/**
+ * Model registry loader
+ * Reads and validates a JSON model registry file
+ */
+
+import fs from "node:fs";
+import type {
+  AvailableModels,
+  ModelConfig,
+  ModelRegistry,
+} from "../types/index.js";
+import { ModelRegistryError, ProviderType } from "../types/index.js";
+import { DEFAULT_MODEL_REGISTRY } from "./DefaultModels.js";
+import {
+  checkGenerationParameters,
+  GENERATION_PARAMETER_NAMES,
+} from "../utils/GenerationParameters.js";
+
+const PROVIDER_TYPES = Object.values(ProviderType) as string[];
+const CAPABILITY_FLAGS = ["streaming", "structuredOutput", "reasoning"];
+
+/**
+ * Load a model registry from a JSON file
+ *
+ * Expected shape:
+ * {
+ *   "default": "gpt-5-codex",        // optional
+ *   "includeDefaults": false,         // optional, merge the built-in models
+ *   "models": {
+ *     "gpt-5-codex": { "id": "openai/gpt-5-codex", "description": "...", "bestFor": ["coding"],
+ *                      "defaults": { "temperature": 0.2 }, ... }
+ *   }
+ * }
+ *
+ * Throws ModelRegistryError listing every problem found.
+ */
+export function loadModelRegistry(filePath: string): ModelRegistry {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(fs.readFileSync(filePath, "utf8"));
+  } catch (error) {
+    throw new ModelRegistryError(
+      `Failed to read model registry ${filePath}: ${error instanceof Error ? error.message : String(error)}`,
+      filePath,
+    );
+  }
+
+  return parseModelRegistry(raw, filePath);
+}
+
+/**
+ * Validate an already-parsed registry object
+ */
+export function parseModelRegistry(
+  raw: unknown,
+  filePath: string,
+): ModelRegistry {
+  const problems: string[] = [];
+
+  if (!isObject(raw)) {
+    throw new ModelRegistryError(
+      `Invalid model registry ${filePath}: expected a JSON object at the top level`,
+      filePath,
+    );
+  }
+
+  if (raw.includeDefaults !== undefined && typeof raw.includeDefaults !== "boolean") {
+    problems.push("includeDefaults must be a boolean");
+  }
+
+  const models: Record<string, ModelConfig> =
+    raw.includeDefaults === true ? { ...DEFAULT_MODEL_REGISTRY.models } : {};
+
+  if (!isObject(raw.models)) {
+    problems.push("models must be an object keyed by model name");
+  } else {
+    for (const [name, entry] of Object.entries(raw.models)) {
+      const model = validateModel(name, entry, problems);
+      if (model) {
+        models[name] = model;
+      }
+    }
+  }
+
+  // Names and aliases share one namespace
+  const seen = new Map<string, string>();
+  for (const [name, model] of Object.entries(models)) {
+    for (const key of [name, ...(model.aliases ?? [])]) {
+      const owner = seen.get(key);
+      if (owner && owner !== name) {
+        problems.push(`models.${name}: name or alias "${key}" is already used by models.${owner}`);
+      }
+      seen.set(key, name);
+    }
+  }
+
+  // Fallbacks name other models in the registry
+  for (const [name, model] of Object.entries(models)) {
+    for (const fallback of model.fallbacks ?? []) {
+      const target = seen.get(fallback);
+      if (!target) {
+        problems.push(`models.${name}.fallbacks: "${fallback}" is not a defined model or alias`);
+      } else if (target === name) {
+        problems.push(`models.${name}.fallbacks must not include the model itself`);
+      }
+    }
+  }
+
+  if (problems.length === 0 && Object.keys(models).length === 0) {
+    problems.push("models must define at least one model");
+  }
+
+  let defaultModel = DEFAULT_MODEL_REGISTRY.defaultModel;
+  if (raw.default !== undefined) {
+    if (typeof raw.default !== "string" || !models[raw.default]) {
+      problems.push(`default must name one of the defined models (${Object.keys(models).join(", ")})`);
+    } else {
+      defaultModel = raw.default;
+    }
+  } else if (!models[defaultModel]) {
+    defaultModel = Object.keys(models)[0];
+  }
+
+  if (problems.length > 0) {
+    throw new ModelRegistryError(
+      `Invalid model registry ${filePath}:\n${problems.map((p) => `  - ${p}`).join("\n")}`,
+      filePath,
+      problems,
+    );
+  }
+
+  return { models: models as AvailableModels, defaultModel };
+}
+
+/**
+ * Validate a single model entry, recording problems
+ */
+function validateModel(
+  name: string,
+  entry: unknown,
+  problems: string[],
+): ModelConfig | undefined {
+  const at = `models.${name}`;
+  const before = problems.length;
+
+  if (!isObject(entry)) {
+    problems.push(`${at} must be an object`);
+    return undefined;
+  }
+
+  if (typeof entry.id !== "string" || entry.id.trim() === "") {
+    problems.push(`${at}.id must be a non-empty string (the provider's model ID)`);
+  }
+  if (typeof entry.description !== "string") {
+    problems.push(`${at}.description must be a string`);
+  }
+  if (!isStringArray(entry.bestFor)) {
+    problems.push(`${at}.bestFor must be an array of strings`);
+  }
+  if (entry.aliases !== undefined && !isStringArray(entry.aliases)) {
+    problems.push(`${at}.aliases must be an array of strings`);
+  }
+  if (entry.provider !== undefined && !PROVIDER_TYPES.includes(entry.provider as string)) {
+    problems.push(`${at}.provider must be one of ${PROVIDER_TYPES.join(", ")}`);
+  }
+  if (entry.baseUrl !== undefined || entry.apiKeyEnv !== undefined) {
+    if ((entry.provider ?? ProviderType.OPENROUTER) === ProviderType.OPENROUTER) {
+      problems.push(`${at}.baseUrl and ${at}.apiKeyEnv need a provider other than openrouter`);
+    }
+    if (entry.baseUrl !== undefined && !isHttpUrl(entry.baseUrl)) {
+      problems.push(`${at}.baseUrl must be an http(s) URL`);
+    }
+    if (
+      entry.apiKeyEnv !== undefined &&
+      (typeof entry.apiKeyEnv !== "string" || !/^[A-Za-z_][A-Za-z0-9_]*$/.test(entry.apiKeyEnv))
+    ) {
+      problems.push(`${at}.apiKeyEnv must be an environment variable name`);
+    }
+  }
+  if (
+    entry.contextLength !== undefined &&
+    (!Number.isInteger(entry.contextLength) || (entry.contextLength as number) <= 0)
+  ) {
+    problems.push(`${at}.contextLength must be a positive integer`);
+  }
+
+  if (entry.pricing !== undefined) {
+    if (!isObject(entry.pricing)) {
+      problems.push(`${at}.pricing must be an object with prompt and completion rates`);
+    } else {
+      for (const key of ["prompt", "completion"]) {
+        const rate = entry.pricing[key];
+        if (typeof rate !== "number" || rate < 0) {
+          problems.push(`${at}.pricing.${key} must be a non-negative number (USD per million tokens)`);
+        }
+      }
+    }
+  }
+
+  if (entry.capabilities !== undefined) {
+    if (!isObject(entry.capabilities)) {
+      problems.push(`${at}.capabilities must be an object`);
+    } else {
+      for (const flag of CAPABILITY_FLAGS) {
+        const value = entry.capabilities[flag];
+        if (value !== undefined && typeof value !== "boolean") {
+          problems.push(`${at}.capabilities.${flag} must be a boolean`);
+        }
+      }
+      const modalities = entry.capabilities.inputModalities;
+      if (modalities !== undefined && !isStringArray(modalities)) {
+        problems.push(`${at}.capabilities.inputModalities must be an array of strings`);
+      }
+      const parameters = entry.capabilities.parameters;
+      if (
+        parameters !== undefined &&
+        !(
+          isStringArray(parameters) &&
+          parameters.every((p) => (GENERATION_PARAMETER_NAMES as string[]).includes(p))
+        )
+      ) {
+        problems.push(
+          `${at}.capabilities.parameters must be an array of ${GENERATION_PARAMETER_NAMES.join(", ")}`,
+        );
+      }
+    }
+  }
+
+  if (entry.circuitBreaker !== undefined) {
+    if (!isObject(entry.circuitBreaker)) {
+      problems.push(`${at}.circuitBreaker must be an object`);
+    } else {
+      const { threshold, resetMs, timeoutMs } = entry.circuitBreaker;
+      if (
+        threshold !== undefined &&
+        (typeof threshold !== "number" || threshold < 0 || threshold > 1)
+      ) {
+        problems.push(`${at}.circuitBreaker.threshold must be a number between 0 and 1`);
+      }
+      for (const [key, value] of [["resetMs", resetMs], ["timeoutMs", timeoutMs]]) {
+        if (value !== undefined && (typeof value !== "number" || value <= 0)) {
+          problems.push(`${at}.circuitBreaker.${key} must be a positive number of milliseconds`);
+        }
+      }
+    }
+  }
+
+  if (entry.fallbacks !== undefined && !isStringArray(entry.fallbacks)) {
+    problems.push(`${at}.fallbacks must be an array of model names`);
+  }
+
+  if (entry.defaults !== undefined) {
+    if (!isObject(entry.defaults)) {
+      problems.push(`${at}.defaults must be an object of generation parameters`);
+    } else {
+      const unknown = Object.keys(entry.defaults).filter(
+        (key) => !(GENERATION_PARAMETER_NAMES as string[]).includes(key),
+      );
+      if (unknown.length > 0) {
+        problems.push(
+          `${at}.defaults has unknown parameters (${unknown.join(", ")}); expected ${GENERATION_PARAMETER_NAMES.join(", ")}`,
+        );
+      }
+      problems.push(...checkGenerationParameters(entry.defaults, `${at}.defaults`).problems);
+    }
+  }
+
+  return problems.length === before ? (entry as unknown as ModelConfig) : undefined;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isHttpUrl(value: unknown): boolean {
+  if (typeof value !== "string") {
+    return false;
+  }
+  try {
+    const { protocol } = new URL(value);
+    return protocol === "http:" || protocol === "https:";
+  } catch {
+    return false;
+  }
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((item) => typeof item === "string");
+}
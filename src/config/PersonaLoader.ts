@@ -0,0 +1,75 @@
+/**
+ * Persona loader
+ * Reads and validates a JSON personas file
+ */
+
+import fs from "node:fs";
+import type { Persona, PersonaRegistry } from "../types/index.js";
+import { PersonaConfigError } from "../types/index.js";
+import { DEFAULT_PERSONAS } from "./DefaultPersonas.js";
+
+/**
+ * Load personas from a JSON file, merged over the built-in personas
+ *
+ * Expected shape:
+ * {
+ *   "dba": { "description": "...", "systemPrompt": "You are a database administrator..." }
+ * }
+ *
+ * Entries with a built-in name replace the built-in persona.
+ * Throws PersonaConfigError listing every problem found.
+ */
+export function loadPersonas(filePath: string): PersonaRegistry {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(fs.readFileSync(filePath, "utf8"));
+  } catch (error) {
+    throw new PersonaConfigError(
+      `Failed to read personas file ${filePath}: ${error instanceof Error ? error.message : String(error)}`,
+      filePath,
+    );
+  }
+
+  if (typeof raw !== "object" || raw === null || Array.isArray(raw)) {
+    throw new PersonaConfigError(
+      `Invalid personas file ${filePath}: expected a JSON object keyed by persona name`,
+      filePath,
+    );
+  }
+
+  const problems: string[] = [];
+  const personas: Record<string, Persona> = { ...DEFAULT_PERSONAS };
+
+  for (const [name, entry] of Object.entries(raw as Record<string, unknown>)) {
+    if (typeof entry !== "object" || entry === null || Array.isArray(entry)) {
+      problems.push(`${name} must be an object`);
+      continue;
+    }
+
+    const { description, systemPrompt } = entry as Record<string, unknown>;
+    const before = problems.length;
+    if (typeof description !== "string") {
+      problems.push(`${name}.description must be a string`);
+    }
+    if (typeof systemPrompt !== "string" || systemPrompt.trim() === "") {
+      problems.push(`${name}.systemPrompt must be a non-empty string`);
+    }
+
+    if (problems.length === before) {
+      personas[name] = {
+        description: description as string,
+        systemPrompt: systemPrompt as string,
+      };
+    }
+  }
+
+  if (problems.length > 0) {
+    throw new PersonaConfigError(
+      `Invalid personas file ${filePath}:\n${problems.map((p) => `  - ${p}`).join("\n")}`,
+      filePath,
+      problems,
+    );
+  }
+
+  return personas;
+}
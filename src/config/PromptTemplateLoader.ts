@@ -0,0 +1,150 @@
+/**
+ * Prompt template loader
+ * Reads and validates a directory of JSON prompt templates
+ */
+
+import fs from "node:fs";
+import path from "node:path";
+import type {
+  PromptTemplate,
+  PromptTemplateLibrary,
+} from "../types/index.js";
+import { PromptTemplateError } from "../types/index.js";
+import { DEFAULT_PROMPT_TEMPLATES } from "./DefaultPromptTemplates.js";
+
+const ARGUMENT_NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+export const PLACEHOLDER_PATTERN = /\{\{\s*([A-Za-z_][A-Za-z0-9_]*)\s*\}\}/g;
+
+/**
+ * Load every *.json template in a directory, merged over the built-in templates
+ *
+ * Each file is named after its template (e.g. review-migration.json):
+ * {
+ *   "description": "Review a database migration",
+ *   "arguments": [{ "name": "migration", "description": "...", "required": true }],
+ *   "template": "Review this migration for locking and data loss:\n\n{{migration}}",
+ *   "models": ["gpt-5-codex"],        // optional preferred models
+ *   "persona": "code-reviewer"         // optional
+ * }
+ *
+ * Throws PromptTemplateError listing every problem found.
+ */
+export function loadPromptTemplates(directory: string): PromptTemplateLibrary {
+  let fileNames: string[];
+  try {
+    fileNames = fs
+      .readdirSync(directory)
+      .filter((name) => name.endsWith(".json"))
+      .sort();
+  } catch (error) {
+    throw new PromptTemplateError(
+      `Failed to read prompt templates directory ${directory}: ${error instanceof Error ? error.message : String(error)}`,
+    );
+  }
+
+  const problems: string[] = [];
+  const templates: Record<string, PromptTemplate> = {
+    ...DEFAULT_PROMPT_TEMPLATES,
+  };
+
+  for (const fileName of fileNames) {
+    const name = path.basename(fileName, ".json");
+    let raw: unknown;
+    try {
+      raw = JSON.parse(fs.readFileSync(path.join(directory, fileName), "utf8"));
+    } catch (error) {
+      problems.push(`${fileName}: ${error instanceof Error ? error.message : String(error)}`);
+      continue;
+    }
+
+    const template = validateTemplate(fileName, raw, problems);
+    if (template) {
+      templates[name] = template;
+    }
+  }
+
+  if (problems.length > 0) {
+    throw new PromptTemplateError(
+      `Invalid prompt templates in ${directory}:\n${problems.map((p) => `  - ${p}`).join("\n")}`,
+      problems,
+    );
+  }
+
+  return templates;
+}
+
+/**
+ * Validate a single template, recording problems
+ */
+function validateTemplate(
+  at: string,
+  raw: unknown,
+  problems: string[],
+): PromptTemplate | undefined {
+  const before = problems.length;
+
+  if (typeof raw !== "object" || raw === null || Array.isArray(raw)) {
+    problems.push(`${at} must contain a JSON object`);
+    return undefined;
+  }
+
+  const entry = raw as Record<string, unknown>;
+  if (typeof entry.description !== "string") {
+    problems.push(`${at}: description must be a string`);
+  }
+  if (typeof entry.template !== "string" || entry.template.trim() === "") {
+    problems.push(`${at}: template must be a non-empty string`);
+  }
+  if (entry.models !== undefined && !isStringArray(entry.models)) {
+    problems.push(`${at}: models must be an array of model names`);
+  }
+  if (entry.persona !== undefined && typeof entry.persona !== "string") {
+    problems.push(`${at}: persona must be a string`);
+  }
+
+  const declared = new Set<string>();
+  const args = entry.arguments ?? [];
+  if (!Array.isArray(args)) {
+    problems.push(`${at}: arguments must be an array`);
+  } else {
+    args.forEach((arg: unknown, index) => {
+      const argument = arg as Record<string, unknown> | null;
+      if (
+        typeof argument?.name !== "string" ||
+        !ARGUMENT_NAME_PATTERN.test(argument.name)
+      ) {
+        problems.push(`${at}: arguments[${index}].name must be an identifier`);
+        return;
+      }
+      if (argument.required !== undefined && typeof argument.required !== "boolean") {
+        problems.push(`${at}: arguments[${index}].required must be a boolean`);
+      }
+      if (argument.description !== undefined && typeof argument.description !== "string") {
+        problems.push(`${at}: arguments[${index}].description must be a string`);
+      }
+      declared.add(argument.name);
+    });
+  }
+
+  if (typeof entry.template === "string") {
+    for (const [, placeholder] of entry.template.matchAll(PLACEHOLDER_PATTERN)) {
+      if (!declared.has(placeholder)) {
+        problems.push(`${at}: placeholder {{${placeholder}}} is not a declared argument`);
+      }
+    }
+  }
+
+  return problems.length === before
+    ? {
+        description: entry.description as string,
+        arguments: args as PromptTemplate["arguments"],
+        template: entry.template as string,
+        ...(entry.models ? { models: entry.models as string[] } : {}),
+        ...(entry.persona ? { persona: entry.persona as string } : {}),
+      }
+    : undefined;
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((item) => typeof item === "string");
+}
@@ -7,15 +7,40 @@
 
 import { Config } from "./config/Config.js";
 import { Cache } from "./infrastructure/Cache.js";
+import { DiskCache } from "./infrastructure/DiskCache.js";
+import { ResponseCache } from "./infrastructure/ResponseCache.js";
+import { FileAttachmentLoader } from "./infrastructure/FileAttachmentLoader.js";
+import { GitDiffReader } from "./infrastructure/GitDiffReader.js";
 import { HistoryManager } from "./infrastructure/HistoryManager.js";
+import { InMemoryConversationStore } from "./infrastructure/InMemoryConversationStore.js";
+import { FileConversationStore } from "./infrastructure/FileConversationStore.js";
+import { UsageTracker } from "./infrastructure/UsageTracker.js";
 import { RateLimiter } from "./utils/RateLimiter.js";
-import { CircuitBreakerWrapper } from "./utils/CircuitBreakerWrapper.js";
-import { configureAxiosRetry } from "./utils/RetryConfig.js";
+import { CircuitBreakerRegistry } from "./utils/CircuitBreakerRegistry.js";
+import { RetryPolicy } from "./utils/RetryPolicy.js";
 import { ModelSelector } from "./services/ModelSelector.js";
+import { loadModelRegistry } from "./config/ModelRegistryLoader.js";
+import { DEFAULT_MODEL_REGISTRY } from "./config/DefaultModels.js";
+import { loadPersonas } from "./config/PersonaLoader.js";
+import { DEFAULT_PERSONAS } from "./config/DefaultPersonas.js";
+import { loadPromptTemplates } from "./config/PromptTemplateLoader.js";
+import { ModelCatalogService } from "./services/ModelCatalogService.js";
 import { ApiClient } from "./services/ApiClient.js";
 import { ConsultationService } from "./services/ConsultationService.js";
+import { DiffReviewService } from "./services/DiffReviewService.js";
+import { PromptLibrary } from "./services/PromptLibrary.js";
 import { MCPServer } from "./mcp/MCPServer.js";
-import type { ConsultResult } from "./types/index.js";
+import { ProviderRegistry } from "./services/providers/ProviderRegistry.js";
+import type {
+  ApiCallOptions,
+  CachedResponse,
+  CallWatchdog,
+  ICache,
+  IConversationStore,
+  IModelSelector,
+  OpenRouterMessage,
+  ProviderType,
+} from "./types/index.js";
 
 /**
  * Application bootstrap
@@ -26,24 +51,57 @@ async function main() {
     const config = Config.getInstance();
     console.error("Configuration loaded successfully");
 
-    // Configure axios retry logic
-    configureAxiosRetry(config.retryAttempts);
-
     // Initialize infrastructure
-    const cache = new Cache<ConsultResult>({
-      ttl: config.cacheTtlSeconds,
-      checkPeriod: 60,
+    const cache = new ResponseCache(createCache(config), {
+      similarityThreshold: config.fuzzyCache
+        ? config.fuzzyCacheThreshold
+        : undefined,
     });
 
-    const historyManager = new HistoryManager(config.maxConversationHistory);
+    const historyManager = new HistoryManager(
+      config.maxHistoryTokens,
+      createConversationStore(config),
+      config.maxConversationHistory,
+    );
 
-    const rateLimiter = new RateLimiter(config.rateLimitPerMinute);
+    const rateLimiter = new RateLimiter(
+      config.rateLimitPerMinute,
+      config.rateLimitTokensPerMinute,
+    );
 
     // Initialize services
-    const modelSelector = new ModelSelector();
+    const modelRegistry = config.modelRegistryFile
+      ? loadModelRegistry(config.modelRegistryFile)
+      : DEFAULT_MODEL_REGISTRY;
+    const modelSelector = new ModelSelector(modelRegistry);
+
+    // Overlay OpenRouter catalog data (snapshot first, so startup works offline)
+    const modelCatalog = new ModelCatalogService(modelSelector, {
+      snapshotPath: config.modelCatalogFile,
+      maxAgeMs: config.modelCatalogMaxAgeHours * 3600000,
+      include: config.modelCatalogInclude,
+      defaultModel: modelRegistry.defaultModel,
+      apiKey: config.openRouterApiKey,
+    });
+    modelCatalog.loadSnapshot();
+
+    const usageTracker = new UsageTracker(
+      modelSelector,
+      {
+        dailyUsd: config.dailySpendLimitUsd,
+        monthlyUsd: config.monthlySpendLimitUsd,
+      },
+      config.usageFile,
+    );
 
-    // Create API client with circuit breaker
-    const apiClient = createApiClient(config);
+    // Create API client with circuit breakers per model or provider
+    const apiClient = createApiClient(config, modelSelector);
+
+    const promptLibrary = new PromptLibrary(
+      config.promptTemplatesDir
+        ? loadPromptTemplates(config.promptTemplatesDir)
+        : undefined,
+    );
 
     // Create consultation service with all dependencies
     const consultationService = new ConsultationService(
@@ -52,11 +110,40 @@ async function main() {
       cache,
       historyManager,
       rateLimiter,
+      usageTracker,
+      config.personasFile ? loadPersonas(config.personasFile) : DEFAULT_PERSONAS,
+      config.fileRoots.length > 0
+        ? new FileAttachmentLoader({
+            roots: config.fileRoots,
+            maxFileBytes: config.fileMaxKb * 1024,
+            maxTotalBytes: config.filesTotalMaxKb * 1024,
+          })
+        : undefined,
+      promptLibrary,
+    );
+
+    // Review pending git changes through the consultation service
+    const diffReviewService = new DiffReviewService(
+      consultationService,
+      new GitDiffReader(config.fileRoots),
     );
 
     // Create and start MCP server
-    const mcpServer = new MCPServer(consultationService);
+    const mcpServer = new MCPServer(
+      consultationService,
+      modelCatalog,
+      diffReviewService,
+      historyManager,
+      promptLibrary,
+    );
     await mcpServer.start();
+
+    // Refresh a stale catalog in the background; tools/list_changed follows if models change
+    if (config.modelCatalogSync && modelCatalog.isStale()) {
+      modelCatalog.refresh().catch((error) => {
+        console.error(`Model catalog sync failed: ${error instanceof Error ? error.message : String(error)}`);
+      });
+    }
   } catch (error) {
     console.error("Failed to start server:", error);
     process.exit(1);
@@ -64,28 +151,89 @@ async function main() {
 }
 
 /**
- * Create API client with circuit breaker
+ * Create the response cache selected by CACHE_STORE
  */
-function createApiClient(config: Config): ApiClient {
+function createCache(config: Config): ICache<CachedResponse> {
+  if (config.cacheStore === "disk") {
+    console.error(`Caching responses on disk in ${config.cacheDir}`);
+    return new DiskCache<CachedResponse>({
+      directory: config.cacheDir,
+      ttl: config.cacheTtlSeconds,
+      maxBytes: config.cacheMaxMb * 1024 * 1024,
+    });
+  }
+  return new Cache<CachedResponse>({
+    ttl: config.cacheTtlSeconds,
+    checkPeriod: 60,
+  });
+}
+
+/**
+ * Create the conversation store selected by HISTORY_STORE
+ */
+function createConversationStore(config: Config): IConversationStore {
+  if (config.historyStore === "file") {
+    console.error(`Persisting conversations to ${config.historyDir}`);
+    return new FileConversationStore(config.historyDir);
+  }
+  return new InMemoryConversationStore();
+}
+
+/**
+ * Create API client with a circuit breaker registry
+ */
+function createApiClient(
+  config: Config,
+  modelSelector: IModelSelector,
+): ApiClient {
+  const providers = new ProviderRegistry(config);
+
   // Create a wrapper function that matches the circuit breaker signature
-  const makeApiCallWrapper = async (...args: unknown[]) => {
-    const [model, messages] = args as [string, any[]];
-    const tempClient = new ApiClient(config.openRouterApiKey, null as any);
-    return tempClient.makeApiCall(model, messages);
+  const makeApiCallWrapper = async (
+    watchdog: CallWatchdog,
+    ...args: unknown[]
+  ) => {
+    const [provider, model, messages, options] = args as [
+      ProviderType,
+      string,
+      OpenRouterMessage[],
+      ApiCallOptions,
+    ];
+    // The caller's signal cancels the request just like the inactivity timeout
+    const callWatchdog: CallWatchdog = options.signal
+      ? {
+          touch: () => watchdog.touch(),
+          signal: AbortSignal.any([watchdog.signal, options.signal]),
+        }
+      : watchdog;
+    return providers
+      .forModel(provider, modelSelector.resolveModel(model))
+      .complete(model, messages, { ...options, watchdog: callWatchdog });
   };
 
-  // Create circuit breaker wrapping the API call
-  const circuitBreaker = new CircuitBreakerWrapper(
+  // Each model (or provider) gets its own breaker wrapping the API call
+  const circuitBreakers = new CircuitBreakerRegistry(
     makeApiCallWrapper,
     {
       timeout: config.circuitBreakerTimeout,
       errorThresholdPercentage: config.circuitBreakerThreshold * 100,
       resetTimeout: config.circuitBreakerResetTimeout,
+      // Every attempt is a call, so only a request that exhausts its retries opens the circuit
+      volumeThreshold: config.retryAttempts + 1,
     },
+    modelSelector,
+    config.circuitBreakerScope,
   );
 
-  // Create the actual ApiClient with the circuit breaker
-  return new ApiClient(config.openRouterApiKey, circuitBreaker);
+  // Transient failures are retried per request, each attempt through the breaker
+  const retryPolicy = new RetryPolicy({
+    retries: config.retryAttempts,
+    baseDelayMs: config.retryBaseDelayMs,
+    maxTotalMs: config.retryMaxTotalMs,
+  });
+
+  // Create the actual ApiClient with the circuit breakers
+  return new ApiClient(circuitBreakers, modelSelector, retryPolicy);
 }
 
 // Start the application
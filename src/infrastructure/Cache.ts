@@ -2,8 +2,9 @@
  * In-memory cache implementation with TTL support
  */
 
+import { createHash } from "node:crypto";
 import NodeCache from "node-cache";
-import type { ICache, CacheOptions } from "../types/index.js";
+import type { ICache, CacheOptions, CacheKeyInput } from "../types/index.js";
 
 export class Cache<T> implements ICache<T> {
   private cache: NodeCache;
@@ -23,6 +24,13 @@ export class Cache<T> implements ICache<T> {
     return this.cache.get<T>(key);
   }
 
+  /**
+   * Get value from cache; in memory this never affects eviction
+   */
+  public peek(key: string): T | undefined {
+    return this.cache.get<T>(key);
+  }
+
   /**
    * Set value in cache
    */
@@ -51,6 +59,13 @@ export class Cache<T> implements ICache<T> {
     this.cache.flushAll();
   }
 
+  /**
+   * Get the keys of all entries, oldest first
+   */
+  public keys(): string[] {
+    return this.cache.keys();
+  }
+
   /**
    * Get cache statistics
    */
@@ -61,10 +76,32 @@ export class Cache<T> implements ICache<T> {
 
 /**
  * Generate cache key for AI consultation
+ * Hashes the full request so prompts sharing a prefix never collide
  */
-export function generateCacheKey(prompt: string, model: string): string {
-  // Use first 100 chars of prompt to keep key manageable
-  const promptPrefix = prompt.substring(0, 100);
-  return `${model}:${promptPrefix}`;
+export function generateCacheKey(input: CacheKeyInput): string {
+  const hash = createHash("sha256")
+    .update(stableStringify(input))
+    .digest("hex");
+  return `${input.model}:${hash}`;
+}
+
+/**
+ * JSON.stringify with sorted object keys and undefined values dropped,
+ * so equivalent requests always serialize identically
+ */
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map((item) => stableStringify(item ?? null)).join(",")}]`;
+  }
+
+  if (value !== null && typeof value === "object") {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+      .map(([k, v]) => `${JSON.stringify(k)}:${stableStringify(v)}`);
+    return `{${entries.join(",")}}`;
+  }
+
+  return JSON.stringify(value);
 }
 
@@ -0,0 +1,230 @@
+/**
+ * Disk-backed cache implementation with TTL and LRU eviction
+ * Entries survive restarts; the total size on disk is capped
+ */
+
+import fs from "node:fs";
+import path from "node:path";
+import type { ICache, DiskCacheOptions } from "../types/index.js";
+import { writeFileAtomicSync } from "../utils/AtomicWrite.js";
+
+const FILE_EXTENSION = ".json";
+
+interface DiskCacheEntry<T> {
+  key: string;
+  value: T;
+  expiresAt: number | null; // Epoch ms
+}
+
+interface IndexEntry {
+  size: number; // Bytes on disk
+  lastAccess: number; // Epoch ms
+}
+
+export class DiskCache<T> implements ICache<T> {
+  private readonly directory: string;
+  private readonly ttlMs: number;
+  private readonly maxBytes: number;
+  private index: Map<string, IndexEntry>;
+  private totalBytes: number;
+
+  constructor(options: DiskCacheOptions) {
+    this.directory = options.directory;
+    this.ttlMs = options.ttl * 1000;
+    this.maxBytes = options.maxBytes;
+    this.index = new Map();
+    this.totalBytes = 0;
+
+    fs.mkdirSync(this.directory, { recursive: true });
+    this.loadIndex();
+  }
+
+  /**
+   * Get value from cache
+   * Expired or unreadable entries are removed
+   */
+  public get(key: string): T | undefined {
+    const value = this.peek(key);
+    if (value !== undefined) {
+      this.touch(key);
+    }
+    return value;
+  }
+
+  /**
+   * Get value from cache without marking it as recently used
+   */
+  public peek(key: string): T | undefined {
+    if (!this.index.has(key)) {
+      return undefined;
+    }
+
+    const entry = this.readEntry(key);
+    if (!entry || (entry.expiresAt !== null && entry.expiresAt <= Date.now())) {
+      this.delete(key);
+      return undefined;
+    }
+
+    return entry.value;
+  }
+
+  /**
+   * Set value in cache, evicting least recently used entries if over the size cap
+   */
+  public set(key: string, value: T): void {
+    const entry: DiskCacheEntry<T> = {
+      key,
+      value,
+      expiresAt: this.ttlMs > 0 ? Date.now() + this.ttlMs : null,
+    };
+    const data = JSON.stringify(entry);
+    const size = Buffer.byteLength(data);
+
+    if (size > this.maxBytes) {
+      return;
+    }
+
+    try {
+      writeFileAtomicSync(this.getFilePath(key), data);
+    } catch (error) {
+      console.error("[Cache] Failed to write cache entry:", error);
+      return;
+    }
+
+    this.totalBytes -= this.index.get(key)?.size ?? 0;
+    this.index.set(key, { size, lastAccess: Date.now() });
+    this.totalBytes += size;
+
+    this.evict();
+  }
+
+  /**
+   * Check if key exists in cache
+   */
+  public has(key: string): boolean {
+    return this.get(key) !== undefined;
+  }
+
+  /**
+   * Delete key from cache
+   */
+  public delete(key: string): void {
+    const existing = this.index.get(key);
+    if (existing) {
+      this.totalBytes -= existing.size;
+      this.index.delete(key);
+    }
+    fs.rmSync(this.getFilePath(key), { force: true });
+  }
+
+  /**
+   * Clear all cache entries
+   */
+  public clear(): void {
+    for (const key of Array.from(this.index.keys())) {
+      this.delete(key);
+    }
+  }
+
+  /**
+   * Get the keys of all entries, least recently used first
+   */
+  public keys(): string[] {
+    return Array.from(this.index.entries())
+      .sort(([, a], [, b]) => a.lastAccess - b.lastAccess)
+      .map(([key]) => key);
+  }
+
+  /**
+   * Get cache statistics
+   */
+  public getStats(): { keys: number; bytes: number; maxBytes: number } {
+    return {
+      keys: this.index.size,
+      bytes: this.totalBytes,
+      maxBytes: this.maxBytes,
+    };
+  }
+
+  /**
+   * Build the in-memory LRU index from the files on disk
+   * File modification times carry the last access time across restarts
+   */
+  private loadIndex(): void {
+    for (const name of fs.readdirSync(this.directory)) {
+      if (!name.endsWith(FILE_EXTENSION)) {
+        continue;
+      }
+
+      try {
+        const stats = fs.statSync(path.join(this.directory, name));
+        const key = decodeURIComponent(name.slice(0, -FILE_EXTENSION.length));
+        this.index.set(key, { size: stats.size, lastAccess: stats.mtimeMs });
+        this.totalBytes += stats.size;
+      } catch {
+        // File vanished between readdir and stat
+      }
+    }
+
+    this.evict();
+  }
+
+  /**
+   * Evict least recently used entries until under the size cap
+   */
+  private evict(): void {
+    if (this.totalBytes <= this.maxBytes) {
+      return;
+    }
+
+    const byAge = Array.from(this.index.entries()).sort(
+      ([, a], [, b]) => a.lastAccess - b.lastAccess,
+    );
+
+    for (const [key] of byAge) {
+      if (this.totalBytes <= this.maxBytes) {
+        break;
+      }
+      this.delete(key);
+    }
+  }
+
+  /**
+   * Mark an entry as recently used
+   */
+  private touch(key: string): void {
+    const now = Date.now();
+    const existing = this.index.get(key);
+    if (existing) {
+      existing.lastAccess = now;
+    }
+
+    try {
+      const time = new Date(now);
+      fs.utimesSync(this.getFilePath(key), time, time);
+    } catch {
+      // Access time is best-effort
+    }
+  }
+
+  /**
+   * Read an entry from disk
+   */
+  private readEntry(key: string): DiskCacheEntry<T> | undefined {
+    try {
+      return JSON.parse(
+        fs.readFileSync(this.getFilePath(key), "utf8"),
+      ) as DiskCacheEntry<T>;
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Map a cache key to a file path inside the cache directory
+   */
+  private getFilePath(key: string): string {
+    const fileName = encodeURIComponent(key).replace(/\./g, "%2E");
+    return path.join(this.directory, `${fileName}${FILE_EXTENSION}`);
+  }
+}
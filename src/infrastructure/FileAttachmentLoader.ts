@@ -0,0 +1,206 @@
+/**
+ * File attachment loader
+ * Reads local files and globs into fenced prompt context, restricted to allowlisted roots
+ */
+
+import fs from "node:fs";
+import path from "node:path";
+import type {
+  AttachedFilesReport,
+  FileAttachmentOptions,
+  FileAttachments,
+  IFileAttachmentLoader,
+} from "../types/index.js";
+import { FileAccessError } from "../types/index.js";
+import { codeFence } from "../utils/CodeFence.js";
+import { expandGlob, isGlob } from "../utils/Glob.js";
+import { isWithin } from "../utils/Paths.js";
+import { estimateTokens } from "../utils/TokenBudget.js";
+
+// Upper bound on files considered per glob
+const MAX_GLOB_MATCHES = 200;
+// Leading bytes inspected for NUL bytes when detecting binary files
+const BINARY_SNIFF_BYTES = 8000;
+
+export class FileAttachmentLoader implements IFileAttachmentLoader {
+  private readonly roots: string[];
+
+  constructor(private readonly options: FileAttachmentOptions) {
+    if (options.roots.length === 0) {
+      throw new Error("At least one file root directory is required");
+    }
+    this.roots = options.roots.map((root) => {
+      const resolved = path.resolve(root);
+      return fs.existsSync(resolved) ? fs.realpathSync(resolved) : resolved;
+    });
+  }
+
+  /**
+   * Read the files named by paths or globs
+   * Relative paths resolve against the first root. Paths outside the roots are
+   * rejected; missing, binary and oversized files are skipped and reported.
+   */
+  public load(patterns: string[]): FileAttachments {
+    const report: AttachedFilesReport = {
+      files: [],
+      skipped: [],
+      total_bytes: 0,
+      estimated_tokens: 0,
+    };
+    const blocks: string[] = [];
+    const seen = new Set<string>();
+
+    for (const pattern of patterns) {
+      const absolute = path.resolve(this.roots[0], pattern);
+      this.assertAllowed(absolute, pattern);
+
+      const glob = isGlob(pattern);
+      let candidates = [absolute];
+      if (glob) {
+        candidates = expandGlob(absolute, MAX_GLOB_MATCHES + 1);
+        if (candidates.length === 0) {
+          report.skipped.push({ path: pattern, reason: "no files matched" });
+          continue;
+        }
+        if (candidates.length > MAX_GLOB_MATCHES) {
+          candidates = candidates.slice(0, MAX_GLOB_MATCHES);
+          report.skipped.push({
+            path: pattern,
+            reason: `matched more than ${MAX_GLOB_MATCHES} files; only the first ${MAX_GLOB_MATCHES} were considered`,
+          });
+        }
+      }
+
+      for (const candidate of candidates) {
+        const block = this.readFile(candidate, report, seen, glob);
+        if (block) {
+          blocks.push(block);
+        }
+      }
+    }
+
+    return {
+      context: blocks.join("\n\n"),
+      report,
+    };
+  }
+
+  /**
+   * Read one file into a fenced block, recording it in the report
+   * Returns undefined when the file is skipped. Glob matches that are symlinks
+   * leading outside the roots are skipped; a path named directly is rejected.
+   */
+  private readFile(
+    filePath: string,
+    report: AttachedFilesReport,
+    seen: Set<string>,
+    globMatch: boolean,
+  ): string | undefined {
+    const displayPath = this.toDisplayPath(filePath);
+
+    let realPath: string;
+    let size: number;
+    try {
+      realPath = fs.realpathSync(filePath);
+      const stats = fs.statSync(realPath);
+      if (!stats.isFile()) {
+        report.skipped.push({ path: displayPath, reason: "not a regular file" });
+        return undefined;
+      }
+      size = stats.size;
+    } catch {
+      report.skipped.push({ path: displayPath, reason: "file not found" });
+      return undefined;
+    }
+
+    // Symlinks must not lead outside the roots
+    if (globMatch && !this.isAllowed(realPath)) {
+      report.skipped.push({
+        path: displayPath,
+        reason: "symlink leads outside the allowed roots",
+      });
+      return undefined;
+    }
+    this.assertAllowed(realPath, displayPath);
+
+    if (seen.has(realPath)) {
+      return undefined;
+    }
+    seen.add(realPath);
+
+    if (size > this.options.maxFileBytes) {
+      report.skipped.push({
+        path: displayPath,
+        reason: `${size} bytes exceeds the per-file limit of ${this.options.maxFileBytes} bytes`,
+      });
+      return undefined;
+    }
+
+    if (report.total_bytes + size > this.options.maxTotalBytes) {
+      report.skipped.push({
+        path: displayPath,
+        reason: `total attachment limit of ${this.options.maxTotalBytes} bytes reached`,
+      });
+      return undefined;
+    }
+
+    const buffer = fs.readFileSync(realPath);
+    if (buffer.subarray(0, BINARY_SNIFF_BYTES).includes(0)) {
+      report.skipped.push({ path: displayPath, reason: "binary file" });
+      return undefined;
+    }
+
+    const block = formatFileBlock(displayPath, buffer.toString("utf8"));
+    const tokens = estimateTokens(block);
+
+    report.files.push({
+      path: displayPath,
+      bytes: size,
+      estimated_tokens: tokens,
+    });
+    report.total_bytes += size;
+    report.estimated_tokens += tokens;
+
+    return block;
+  }
+
+  /**
+   * Reject paths that are not inside one of the allowlisted roots
+   */
+  private assertAllowed(absolutePath: string, requested: string): void {
+    if (!this.isAllowed(absolutePath)) {
+      throw new FileAccessError(
+        `File access denied: ${requested} is outside the allowed roots (${this.roots.join(", ")})`,
+        requested,
+      );
+    }
+  }
+
+  /**
+   * Whether a path is inside one of the allowlisted roots
+   */
+  private isAllowed(absolutePath: string): boolean {
+    return this.roots.some((root) => isWithin(root, absolutePath));
+  }
+
+  /**
+   * Show paths relative to the first root, absolute elsewhere
+   */
+  private toDisplayPath(filePath: string): string {
+    return isWithin(this.roots[0], filePath)
+      ? path.relative(this.roots[0], filePath).split(path.sep).join("/")
+      : filePath;
+  }
+}
+
+/**
+ * Wrap file content in a fenced block labelled with its path
+ * The fence is longer than any backtick run inside the content.
+ */
+function formatFileBlock(displayPath: string, content: string): string {
+  const fence = codeFence(content);
+  const language = path.extname(displayPath).slice(1);
+  const body = content.endsWith("\n") ? content : `${content}\n`;
+
+  return `File: ${displayPath}\n${fence}${language}\n${body}${fence}`;
+}
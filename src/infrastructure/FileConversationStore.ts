@@ -0,0 +1,85 @@
+/**
+ * File-based conversation store
+ * Persists each conversation as a JSON file so threads survive restarts
+ */
+
+import fs from "node:fs";
+import path from "node:path";
+import type {
+  ConversationRecord,
+  IConversationStore,
+} from "../types/index.js";
+import { writeFileAtomicSync } from "../utils/AtomicWrite.js";
+
+const FILE_EXTENSION = ".json";
+
+export class FileConversationStore implements IConversationStore {
+  private readonly directory: string;
+
+  constructor(directory: string) {
+    this.directory = directory;
+    fs.mkdirSync(this.directory, { recursive: true });
+  }
+
+  /**
+   * Load a conversation record
+   * Unreadable or corrupt files are treated as missing
+   */
+  public load(conversationId: string): ConversationRecord | undefined {
+    const filePath = this.getFilePath(conversationId);
+
+    try {
+      const record = JSON.parse(
+        fs.readFileSync(filePath, "utf8"),
+      ) as ConversationRecord;
+      return Array.isArray(record.messages) ? record : undefined;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+        console.error(`[History] Failed to read conversation ${conversationId}:`, error);
+      }
+      return undefined;
+    }
+  }
+
+  /**
+   * Save a conversation record atomically
+   */
+  public save(record: ConversationRecord): void {
+    writeFileAtomicSync(this.getFilePath(record.id), JSON.stringify(record));
+  }
+
+  /**
+   * Delete a conversation record
+   */
+  public delete(conversationId: string): void {
+    fs.rmSync(this.getFilePath(conversationId), { force: true });
+  }
+
+  /**
+   * List stored conversation IDs
+   */
+  public list(): string[] {
+    return fs
+      .readdirSync(this.directory)
+      .filter((name) => name.endsWith(FILE_EXTENSION))
+      .map((name) => decodeURIComponent(name.slice(0, -FILE_EXTENSION.length)));
+  }
+
+  /**
+   * Delete all conversation records
+   */
+  public clear(): void {
+    for (const conversationId of this.list()) {
+      this.delete(conversationId);
+    }
+  }
+
+  /**
+   * Map a conversation ID to a file path inside the store directory
+   * IDs are URI-encoded so they can never escape the directory
+   */
+  private getFilePath(conversationId: string): string {
+    const fileName = encodeURIComponent(conversationId).replace(/\./g, "%2E");
+    return path.join(this.directory, `${fileName}${FILE_EXTENSION}`);
+  }
+}
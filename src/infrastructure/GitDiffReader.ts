@@ -0,0 +1,146 @@
+/**
+ * Git diff reader
+ * Runs `git diff` in a local repository and splits the output per file
+ */
+
+import { execFile } from "node:child_process";
+import fs from "node:fs";
+import path from "node:path";
+import { promisify } from "node:util";
+import type { DiffRequest, FileDiff, IGitDiffReader } from "../types/index.js";
+import { FileAccessError, GitError } from "../types/index.js";
+import { isWithin } from "../utils/Paths.js";
+
+const execFileAsync = promisify(execFile);
+
+const GIT_TIMEOUT_MS = 30000;
+const GIT_MAX_BUFFER = 64 * 1024 * 1024;
+// Ref ranges such as "main", "HEAD~3..HEAD" or "origin/main...feature"
+const REF_RANGE_PATTERN = /^[\w./~^@{}:-]+(\.\.\.?[\w./~^@{}:-]+)?$/;
+
+export class GitDiffReader implements IGitDiffReader {
+  private readonly roots: string[];
+
+  constructor(roots: string[]) {
+    this.roots = roots.map((root) => {
+      const resolved = path.resolve(root);
+      return fs.existsSync(resolved) ? fs.realpathSync(resolved) : resolved;
+    });
+  }
+
+  /**
+   * Read the staged, unstaged or ref-range diff of a repository, one entry per file
+   */
+  public async readDiff(request: DiffRequest): Promise<FileDiff[]> {
+    const repoPath = this.resolveRepoPath(request.repoPath);
+    const args = [
+      "-C",
+      repoPath,
+      "-c",
+      "core.quotePath=false",
+      // Keep the repository's config from running an fsmonitor or hooks
+      "-c",
+      "core.fsmonitor=false",
+      "-c",
+      "core.hooksPath=/dev/null",
+      "diff",
+      "--no-color",
+      // ...or textconv and external diff commands
+      "--no-ext-diff",
+      "--no-textconv",
+    ];
+
+    if (request.source === "staged") {
+      args.push("--cached");
+    } else if (request.source === "range") {
+      const refRange = request.refRange?.trim();
+      if (!refRange || refRange.startsWith("-") || !REF_RANGE_PATTERN.test(refRange)) {
+        throw new GitError(`Invalid ref range: "${request.refRange ?? ""}"`);
+      }
+      args.push("--end-of-options", refRange);
+    }
+
+    args.push("--", ...(request.paths ?? []));
+
+    let stdout: string;
+    try {
+      ({ stdout } = await execFileAsync("git", args, {
+        timeout: GIT_TIMEOUT_MS,
+        maxBuffer: GIT_MAX_BUFFER,
+      }));
+    } catch (error) {
+      const failure = error as { code?: number | string; stderr?: string; message: string };
+      throw new GitError(
+        `git diff failed in ${repoPath}: ${failure.stderr?.trim() || failure.message}`,
+        typeof failure.code === "number" ? failure.code : undefined,
+      );
+    }
+
+    return parseDiff(stdout);
+  }
+
+  /**
+   * Resolve the repository path, which must lie inside an allowed root
+   * Without any roots no repository may be read.
+   */
+  private resolveRepoPath(repoPath: string): string {
+    if (this.roots.length === 0) {
+      throw new FileAccessError(
+        "Repository access is disabled: set FILE_ROOTS to the directories repositories may be read from",
+        repoPath,
+      );
+    }
+
+    const absolute = path.resolve(this.roots[0], repoPath);
+    let realPath: string;
+    try {
+      realPath = fs.realpathSync(absolute);
+    } catch {
+      throw new GitError(`Repository path not found: ${repoPath}`);
+    }
+
+    if (!this.roots.some((root) => isWithin(root, realPath))) {
+      throw new FileAccessError(
+        `Repository access denied: ${repoPath} is outside the allowed roots (${this.roots.join(", ")})`,
+        repoPath,
+      );
+    }
+
+    return realPath;
+  }
+}
+
+/**
+ * Split unified diff output into per-file entries
+ */
+export function parseDiff(output: string): FileDiff[] {
+  return output
+    .split(/^(?=diff --git )/m)
+    .filter((section) => section.startsWith("diff --git "))
+    .map((section) => ({
+      path: diffPath(section),
+      diff: section.trimEnd(),
+      binary: /^Binary files .* differ$/m.test(section),
+    }));
+}
+
+/**
+ * Take the file path from the +++/--- lines, falling back to the header
+ */
+function diffPath(section: string): string {
+  // Only look above the first hunk so changed lines are never mistaken for headers
+  const header = section.split(/^@@/m)[0];
+
+  const added = header.match(/^\+\+\+ b\/(.*)$/m);
+  if (added) {
+    return added[1];
+  }
+
+  const removed = header.match(/^--- a\/(.*)$/m);
+  if (removed) {
+    return removed[1];
+  }
+
+  const gitHeader = header.match(/^diff --git a\/.* b\/(.*)$/m);
+  return gitHeader ? gitHeader[1] : "(unknown)";
+}
@@ -0,0 +1,121 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import type { ConversationRecord } from "../types/index.js";
+import { HistoryManager } from "./HistoryManager.js";
+
+const user = (content: string) => ({ role: "user" as const, content });
+const assistant = (content: string) => ({ role: "assistant" as const, content });
+
+function withTurns(manager: HistoryManager, id: string, count: number): void {
+  for (let i = 1; i <= count; i++) {
+    manager.updateHistory(id, user(`q${i}`), assistant(`a${i}`));
+  }
+}
+
+const contents = (manager: HistoryManager, id: string) =>
+  manager.getHistory(id).map((m) => m.content);
+
+describe("HistoryManager", () => {
+  describe("forkConversation", () => {
+    test("copies the first turns into a new conversation", () => {
+      const manager = new HistoryManager();
+      withTurns(manager, "source", 3);
+      manager.setSystemPrompt("source", "Be brief");
+
+      const fork = manager.forkConversation("source", "fork", 2);
+
+      assert.equal(fork.systemPrompt, "Be brief");
+      assert.deepEqual(contents(manager, "fork"), ["q1", "a1", "q2", "a2"]);
+      assert.deepEqual(contents(manager, "source"), ["q1", "a1", "q2", "a2", "q3", "a3"]);
+    });
+
+    test("copies the whole conversation when turns exceeds its length", () => {
+      const manager = new HistoryManager();
+      withTurns(manager, "source", 2);
+
+      manager.forkConversation("source", "fork", 10);
+
+      assert.deepEqual(contents(manager, "fork"), contents(manager, "source"));
+    });
+
+    test("forks turn 0 as the system prompt alone", () => {
+      const manager = new HistoryManager();
+      withTurns(manager, "source", 1);
+      manager.setSystemPrompt("source", "Be brief");
+
+      const fork = manager.forkConversation("source", "fork", 0);
+
+      assert.deepEqual(fork.messages, []);
+      assert.equal(manager.getSystemPrompt("fork"), "Be brief");
+    });
+
+    test("rejects turn 0 without a system prompt", () => {
+      const manager = new HistoryManager();
+      withTurns(manager, "source", 1);
+
+      assert.throws(() => manager.forkConversation("source", "fork", 0), /Nothing to fork/);
+      assert.equal(manager.getConversation("fork"), undefined);
+    });
+
+    test("rejects negative and non-integer turns", () => {
+      const manager = new HistoryManager();
+      withTurns(manager, "source", 2);
+
+      for (const turns of [-1, 1.5, Number.NaN]) {
+        assert.throws(
+          () => manager.forkConversation("source", "fork", turns),
+          /non-negative integer/,
+        );
+      }
+    });
+
+    test("rejects missing sources and existing targets", () => {
+      const manager = new HistoryManager();
+      withTurns(manager, "source", 1);
+      withTurns(manager, "taken", 1);
+
+      assert.throws(() => manager.forkConversation("missing", "fork", 1), /not found/);
+      assert.throws(() => manager.forkConversation("source", "taken", 1), /already exists/);
+    });
+  });
+
+  describe("pruning", () => {
+    test("drops the oldest turns past the token cap", () => {
+      // Each two-character message costs 5 tokens with overhead, so a turn costs 10
+      const manager = new HistoryManager(25);
+      withTurns(manager, "id", 3);
+
+      assert.deepEqual(contents(manager, "id"), ["q2", "a2", "q3", "a3"]);
+    });
+
+    test("drops the oldest turns past the message cap", () => {
+      const manager = new HistoryManager(200000, undefined, 4);
+      withTurns(manager, "id", 3);
+
+      assert.deepEqual(contents(manager, "id"), ["q2", "a2", "q3", "a3"]);
+    });
+
+    test("keeps the latest turn even when it exceeds the message cap", () => {
+      const manager = new HistoryManager(200000, undefined, 1);
+      withTurns(manager, "id", 2);
+
+      assert.deepEqual(contents(manager, "id"), ["q2", "a2"]);
+    });
+
+    test("prunes saved conversations to the same caps", () => {
+      const manager = new HistoryManager(200000, undefined, 2);
+      const record: ConversationRecord = {
+        id: "saved",
+        messages: [user("q1"), assistant("a1"), user("q2"), assistant("a2")],
+        createdAt: 1,
+        updatedAt: 2,
+      };
+
+      const stored = manager.saveConversation(record);
+
+      assert.deepEqual(stored.messages.map((m) => m.content), ["q2", "a2"]);
+      assert.equal(stored.createdAt, 1);
+      assert.deepEqual(contents(manager, "saved"), ["q2", "a2"]);
+    });
+  });
+});
@@ -1,83 +1,301 @@
 /**
  * Conversation history management
  * Stores and manages conversation threads with automatic pruning
+ *
+ * Emits "conversationUpdated" (id) when a thread changes and
+ * "conversationsChanged" when threads are created or removed.
  */
 
-import type { IHistoryManager, OpenRouterMessage } from "../types/index.js";
+import { EventEmitter } from "node:events";
+import type {
+  ConversationMessage,
+  ConversationRecord,
+  IConversationStore,
+  IHistoryManager,
+  OpenRouterMessage,
+} from "../types/index.js";
+import { InMemoryConversationStore } from "./InMemoryConversationStore.js";
+import { fitConversationToTokenBudget } from "../utils/TokenBudget.js";
 
-export class HistoryManager implements IHistoryManager {
-  private histories: Map<string, OpenRouterMessage[]>;
-  private readonly maxHistoryLength: number;
+export class HistoryManager extends EventEmitter implements IHistoryManager {
+  private histories: Map<string, ConversationRecord>;
+  private readonly stored: Set<string>; // IDs known to be in the store
+  private readonly store: IConversationStore;
+  private readonly maxHistoryTokens: number;
+  private readonly maxHistoryMessages: number;
 
-  constructor(maxHistoryLength: number = 20) {
+  /**
+   * A maxHistoryMessages of 0 caps conversations by tokens only
+   */
+  constructor(
+    maxHistoryTokens: number = 200000,
+    store: IConversationStore = new InMemoryConversationStore(),
+    maxHistoryMessages: number = 0,
+  ) {
+    super();
     this.histories = new Map();
-    this.maxHistoryLength = maxHistoryLength;
+    this.stored = new Set();
+    this.store = store;
+    this.maxHistoryTokens = maxHistoryTokens;
+    this.maxHistoryMessages = maxHistoryMessages;
   }
 
   /**
    * Get conversation history for a given conversation ID
+   * Stored metadata is stripped so the messages can be sent to any provider
    */
   public getHistory(conversationId: string): OpenRouterMessage[] {
-    if (!this.histories.has(conversationId)) {
-      this.histories.set(conversationId, []);
-    }
-    return this.histories.get(conversationId)!;
+    return this.getRecord(conversationId).messages.map(({ role, content }) => ({
+      role,
+      content,
+    }));
   }
 
   /**
    * Update conversation history with new messages
-   * Automatically prunes old messages if exceeding max length
+   * Prunes the oldest turns once the estimated token total or the message
+   * count exceeds its cap; the new turn is always kept, truncated if it alone
+   * exceeds the token cap
    */
   public updateHistory(
     conversationId: string,
-    userMessage: OpenRouterMessage,
-    assistantMessage: OpenRouterMessage,
+    userMessage: ConversationMessage,
+    assistantMessage: ConversationMessage,
   ): void {
-    const history = this.getHistory(conversationId);
-    history.push(userMessage, assistantMessage);
+    const record = this.getRecord(conversationId);
+    const now = Date.now();
+    record.messages = this.prune([
+      ...record.messages,
+      { timestamp: now, ...userMessage },
+      { timestamp: now, ...assistantMessage },
+    ]);
+
+    record.updatedAt = now;
+    this.histories.set(conversationId, record);
+    this.saveRecord(record);
+  }
+
+  /**
+   * Get the system prompt applied to a conversation thread
+   */
+  public getSystemPrompt(conversationId: string): string | undefined {
+    return this.getRecord(conversationId).systemPrompt;
+  }
 
-    // Prune old messages if exceeding max length
-    if (history.length > this.maxHistoryLength) {
-      const excess = history.length - this.maxHistoryLength;
-      history.splice(0, excess);
+  /**
+   * Set the system prompt applied to every later turn of a conversation thread
+   */
+  public setSystemPrompt(conversationId: string, systemPrompt: string): void {
+    const record = this.getRecord(conversationId);
+    if (record.systemPrompt === systemPrompt) {
+      return;
+    }
+
+    record.systemPrompt = systemPrompt;
+    record.updatedAt = Date.now();
+    this.saveRecord(record);
+  }
+
+  /**
+   * Get a stored conversation, or undefined if it does not exist
+   */
+  public getConversation(conversationId: string): ConversationRecord | undefined {
+    const record = this.histories.get(conversationId) ?? this.loadRecord(conversationId);
+    if (!record || (record.messages.length === 0 && !record.systemPrompt)) {
+      return undefined;
     }
 
-    this.histories.set(conversationId, history);
+    this.histories.set(conversationId, record);
+    return record;
+  }
+
+  /**
+   * Copy the first `turns` turns of a conversation into a new conversation
+   * A turn is a user message with the replies that follow it. A fork that
+   * would keep neither messages nor a system prompt is rejected.
+   */
+  public forkConversation(
+    sourceId: string,
+    targetId: string,
+    turns: number,
+  ): ConversationRecord {
+    if (!Number.isInteger(turns) || turns < 0) {
+      throw new Error("turn must be a non-negative integer");
+    }
+
+    const source = this.getConversation(sourceId);
+    if (!source) {
+      throw new Error(`Conversation not found: ${sourceId}`);
+    }
+    if (this.getConversation(targetId)) {
+      throw new Error(`Conversation already exists: ${targetId}`);
+    }
+
+    // Cut before the user message that starts turn `turns + 1`
+    let userCount = 0;
+    let end = source.messages.length;
+    for (let i = 0; i < source.messages.length; i++) {
+      if (source.messages[i].role === "user" && ++userCount > turns) {
+        end = i;
+        break;
+      }
+    }
+
+    if (end === 0 && !source.systemPrompt) {
+      throw new Error(
+        `Nothing to fork: ${sourceId} has no system prompt, so turn 0 would be an empty conversation`,
+      );
+    }
+
+    const now = Date.now();
+    const record: ConversationRecord = {
+      id: targetId,
+      messages: source.messages.slice(0, end).map((m) => ({ ...m })),
+      ...(source.systemPrompt ? { systemPrompt: source.systemPrompt } : {}),
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    return this.saveConversation(record);
+  }
+
+  /**
+   * Store a complete conversation record, replacing any existing one
+   * The messages are pruned to the history caps as in updateHistory;
+   * returns the record as stored.
+   */
+  public saveConversation(record: ConversationRecord): ConversationRecord {
+    const stored: ConversationRecord = {
+      ...record,
+      messages: this.prune(record.messages),
+    };
+    this.histories.set(stored.id, stored);
+    this.saveRecord(stored);
+    return stored;
   }
 
   /**
    * Clear conversation history for a given conversation ID
    */
   public clearHistory(conversationId: string): void {
+    const existed = this.getConversation(conversationId) !== undefined;
     this.histories.delete(conversationId);
+    this.stored.delete(conversationId);
+    this.store.delete(conversationId);
+
+    if (existed) {
+      this.emit("conversationUpdated", conversationId);
+      this.emit("conversationsChanged");
+    }
   }
 
   /**
    * Check if conversation history exists
    */
   public hasHistory(conversationId: string): boolean {
-    return this.histories.has(conversationId) && this.histories.get(conversationId)!.length > 0;
+    return this.getHistory(conversationId).length > 0;
   }
 
   /**
    * Get all conversation IDs
+   * Threads that were looked up but never written are not included
    */
   public getAllConversationIds(): string[] {
-    return Array.from(this.histories.keys());
+    const ids = new Set(this.store.list());
+    for (const [id, record] of this.histories) {
+      if (record.messages.length > 0 || record.systemPrompt) {
+        ids.add(id);
+      }
+    }
+    return Array.from(ids);
   }
 
   /**
    * Get total number of conversations
    */
   public getConversationCount(): number {
-    return this.histories.size;
+    return this.getAllConversationIds().length;
   }
 
   /**
    * Clear all conversation histories
    */
   public clearAll(): void {
+    const ids = this.getAllConversationIds();
     this.histories.clear();
+    this.stored.clear();
+    this.store.clear();
+
+    ids.forEach((id) => this.emit("conversationUpdated", id));
+    if (ids.length > 0) {
+      this.emit("conversationsChanged");
+    }
   }
-}
 
+  /**
+   * Fit messages under the token cap and, when set, the message cap
+   * The latest turn is always kept, and kept history starts on a user message.
+   */
+  private prune(messages: ConversationMessage[]): ConversationMessage[] {
+    const fitted = fitConversationToTokenBudget(messages, this.maxHistoryTokens);
+    if (this.maxHistoryMessages === 0 || fitted.length <= this.maxHistoryMessages) {
+      return fitted;
+    }
+
+    const lastUser = fitted.map((m) => m.role).lastIndexOf("user");
+    let start = fitted.length - this.maxHistoryMessages;
+    if (lastUser !== -1) {
+      start = Math.min(start, lastUser);
+      while (start < lastUser && fitted[start].role !== "user") {
+        start++;
+      }
+    }
+    return fitted.slice(start);
+  }
+
+  /**
+   * Persist a record and notify listeners
+   * A record is new unless it was loaded from or saved to the store before.
+   */
+  private saveRecord(record: ConversationRecord): void {
+    const isNew = !this.stored.has(record.id);
+    this.store.save(record);
+    this.stored.add(record.id);
+
+    this.emit("conversationUpdated", record.id);
+    if (isNew) {
+      this.emit("conversationsChanged");
+    }
+  }
+
+  /**
+   * Get the conversation record, loading it from the store on first access
+   */
+  private getRecord(conversationId: string): ConversationRecord {
+    let record = this.histories.get(conversationId);
+
+    if (!record) {
+      const now = Date.now();
+      record = this.loadRecord(conversationId) ?? {
+        id: conversationId,
+        messages: [],
+        createdAt: now,
+        updatedAt: now,
+      };
+      this.histories.set(conversationId, record);
+    }
+
+    return record;
+  }
+
+  /**
+   * Load a record from the store, remembering that it exists there
+   */
+  private loadRecord(conversationId: string): ConversationRecord | undefined {
+    const record = this.store.load(conversationId);
+    if (record) {
+      this.stored.add(conversationId);
+    }
+    return record;
+  }
+}
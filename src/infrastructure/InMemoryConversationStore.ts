@@ -0,0 +1,52 @@
+/**
+ * In-memory conversation store
+ * Default backend; conversations are lost when the process exits
+ */
+
+import type {
+  ConversationRecord,
+  IConversationStore,
+} from "../types/index.js";
+
+export class InMemoryConversationStore implements IConversationStore {
+  private records: Map<string, ConversationRecord>;
+
+  constructor() {
+    this.records = new Map();
+  }
+
+  /**
+   * Load a conversation record
+   */
+  public load(conversationId: string): ConversationRecord | undefined {
+    return this.records.get(conversationId);
+  }
+
+  /**
+   * Save a conversation record
+   */
+  public save(record: ConversationRecord): void {
+    this.records.set(record.id, record);
+  }
+
+  /**
+   * Delete a conversation record
+   */
+  public delete(conversationId: string): void {
+    this.records.delete(conversationId);
+  }
+
+  /**
+   * List stored conversation IDs
+   */
+  public list(): string[] {
+    return Array.from(this.records.keys());
+  }
+
+  /**
+   * Delete all conversation records
+   */
+  public clear(): void {
+    this.records.clear();
+  }
+}
@@ -0,0 +1,121 @@
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { after, before, describe, test } from "node:test";
+import type { CachedResponse, ConsultResult } from "../types/index.js";
+import { Cache } from "./Cache.js";
+import { DiskCache } from "./DiskCache.js";
+import { ResponseCache } from "./ResponseCache.js";
+
+const result = (response: string): ConsultResult => ({
+  model: "gpt-5",
+  response,
+  usage: { prompt_tokens: 10, completion_tokens: 5, total_tokens: 15 },
+});
+
+const PROMPT = "Explain how the circuit breaker in this service decides to open after failures";
+const REWORDED = "Explain how the circuit breaker in this service decides to open after repeated failures";
+
+describe("ResponseCache", () => {
+  test("answers exact repeats", () => {
+    const cache = new ResponseCache(new Cache<CachedResponse>({ ttl: 60 }));
+    cache.store({ prompt: PROMPT, model: "gpt-5" }, result("cached"));
+
+    assert.deepEqual(cache.lookup({ prompt: PROMPT, model: "gpt-5" }), {
+      result: result("cached"),
+    });
+  });
+
+  test("ignores near-duplicates unless a similarity threshold is set", () => {
+    const cache = new ResponseCache(new Cache<CachedResponse>({ ttl: 60 }));
+    cache.store({ prompt: PROMPT, model: "gpt-5" }, result("cached"));
+
+    assert.equal(cache.lookup({ prompt: REWORDED, model: "gpt-5" }), undefined);
+  });
+
+  test("answers near-duplicates and reports the matched prompt", () => {
+    const cache = new ResponseCache(new Cache<CachedResponse>({ ttl: 60 }), {
+      similarityThreshold: 0.5,
+    });
+    cache.store({ prompt: PROMPT, model: "gpt-5" }, result("cached"));
+
+    const hit = cache.lookup({ prompt: REWORDED, model: "gpt-5" });
+
+    assert.ok(hit?.match);
+    assert.equal(hit.result.response, "cached");
+    assert.equal(hit.match.prompt, PROMPT);
+    assert.ok(hit.match.similarity >= 0.5 && hit.match.similarity < 1);
+  });
+
+  test("requires the model, system prompt and parameters to match exactly", () => {
+    const cache = new ResponseCache(new Cache<CachedResponse>({ ttl: 60 }), {
+      similarityThreshold: 0.5,
+    });
+    cache.store({ prompt: PROMPT, model: "gpt-5", systemPrompt: "Be brief" }, result("cached"));
+
+    assert.equal(cache.lookup({ prompt: REWORDED, model: "grok-4" }), undefined);
+    assert.equal(cache.lookup({ prompt: REWORDED, model: "gpt-5" }), undefined);
+    assert.equal(
+      cache.lookup({
+        prompt: REWORDED,
+        model: "gpt-5",
+        systemPrompt: "Be brief",
+        parameters: { temperature: 0 },
+      }),
+      undefined,
+    );
+  });
+
+  test("rejects prompts below the similarity threshold", () => {
+    const cache = new ResponseCache(new Cache<CachedResponse>({ ttl: 60 }), {
+      similarityThreshold: 0.5,
+    });
+    cache.store({ prompt: PROMPT, model: "gpt-5" }, result("cached"));
+
+    assert.equal(
+      cache.lookup({ prompt: "Write a haiku about autumn leaves", model: "gpt-5" }),
+      undefined,
+    );
+  });
+
+  test("indexes only the most recent prompts", () => {
+    const cache = new ResponseCache(new Cache<CachedResponse>({ ttl: 60 }), {
+      similarityThreshold: 0.5,
+      maxIndexedPrompts: 1,
+    });
+    cache.store({ prompt: PROMPT, model: "gpt-5" }, result("first"));
+    cache.store({ prompt: "Write a haiku about autumn leaves", model: "gpt-5" }, result("second"));
+
+    assert.equal(cache.lookup({ prompt: REWORDED, model: "gpt-5" }), undefined);
+    // Exact lookups do not depend on the index
+    assert.equal(cache.lookup({ prompt: PROMPT, model: "gpt-5" })?.result.response, "first");
+  });
+
+  describe("with a disk cache", () => {
+    let directory: string;
+
+    before(() => {
+      directory = fs.mkdtempSync(path.join(os.tmpdir(), "response-cache-test-"));
+    });
+
+    after(() => {
+      fs.rmSync(directory, { recursive: true, force: true });
+    });
+
+    test("rebuilds the near-duplicate index from entries stored before a restart", () => {
+      const options = { directory, ttl: 0, maxBytes: 1024 * 1024 };
+      new ResponseCache(new DiskCache<CachedResponse>(options), {
+        similarityThreshold: 0.5,
+      }).store({ prompt: PROMPT, model: "gpt-5" }, result("persisted"));
+
+      const restarted = new ResponseCache(new DiskCache<CachedResponse>(options), {
+        similarityThreshold: 0.5,
+      });
+      const hit = restarted.lookup({ prompt: REWORDED, model: "gpt-5" });
+
+      assert.equal(hit?.result.response, "persisted");
+      assert.equal(hit?.match?.prompt, PROMPT);
+    });
+  });
+});
@@ -0,0 +1,148 @@
+/**
+ * Response cache
+ * Exact-match lookups over an ICache, with an optional near-duplicate layer
+ * that matches prompts differing only in whitespace, ordering or wording
+ */
+
+import type {
+  CachedResponse,
+  CacheKeyInput,
+  CacheLookupResult,
+  ConsultResult,
+  ICache,
+  IResponseCache,
+} from "../types/index.js";
+import { generateCacheKey } from "./Cache.js";
+import { jaccard, normalizePrompt, shingles } from "../utils/TextSimilarity.js";
+
+export interface ResponseCacheOptions {
+  similarityThreshold?: number; // 0-1; near-duplicate lookup is disabled when unset
+  maxIndexedPrompts?: number;
+}
+
+interface IndexedPrompt {
+  cacheKey: string;
+  contextKey: string; // Everything except the prompt must match exactly
+  prompt: string;
+  shingles: Set<string>;
+}
+
+export class ResponseCache implements IResponseCache {
+  private readonly index: Map<string, IndexedPrompt>;
+  private readonly similarityThreshold: number | undefined;
+  private readonly maxIndexedPrompts: number;
+
+  constructor(
+    private readonly cache: ICache<CachedResponse>,
+    options: ResponseCacheOptions = {},
+  ) {
+    this.index = new Map();
+    this.similarityThreshold = options.similarityThreshold;
+    this.maxIndexedPrompts = options.maxIndexedPrompts ?? 1000;
+
+    if (this.similarityThreshold !== undefined) {
+      this.rebuildIndex();
+    }
+  }
+
+  /**
+   * Look up a cached result
+   * Exact matches are tried first; near-duplicate hits report the matched prompt
+   */
+  public lookup(input: CacheKeyInput): CacheLookupResult | undefined {
+    const exact = this.cache.get(generateCacheKey(input));
+    if (exact?.result) {
+      return { result: exact.result };
+    }
+
+    if (this.similarityThreshold === undefined) {
+      return undefined;
+    }
+
+    const contextKey = this.getContextKey(input);
+    const queryShingles = shingles(normalizePrompt(input.prompt));
+    let best: { entry: IndexedPrompt; similarity: number } | undefined;
+
+    for (const entry of this.index.values()) {
+      if (entry.contextKey !== contextKey) {
+        continue;
+      }
+      const similarity = jaccard(queryShingles, entry.shingles);
+      if (similarity >= this.similarityThreshold && (!best || similarity > best.similarity)) {
+        best = { entry, similarity };
+      }
+    }
+
+    if (!best) {
+      return undefined;
+    }
+
+    const result = this.cache.get(best.entry.cacheKey)?.result;
+    if (!result) {
+      // Underlying entry expired or was evicted
+      this.index.delete(best.entry.cacheKey);
+      return undefined;
+    }
+
+    return {
+      result,
+      match: {
+        prompt: best.entry.prompt,
+        similarity: Math.round(best.similarity * 1000) / 1000,
+      },
+    };
+  }
+
+  /**
+   * Store a result for later exact and near-duplicate lookups
+   */
+  public store(input: CacheKeyInput, result: ConsultResult): void {
+    const cacheKey = generateCacheKey(input);
+    const contextKey = this.getContextKey(input);
+    this.cache.set(cacheKey, { result, prompt: input.prompt, contextKey });
+
+    if (this.similarityThreshold !== undefined) {
+      this.addToIndex(cacheKey, contextKey, input.prompt);
+    }
+  }
+
+  /**
+   * Index the prompts of entries already in the cache, e.g. loaded from disk
+   * The most recently used entries are kept when there are too many.
+   */
+  private rebuildIndex(): void {
+    for (const cacheKey of this.cache.keys().slice(-this.maxIndexedPrompts)) {
+      const entry = this.cache.peek(cacheKey);
+      // Entries written before prompts were stored cannot be indexed
+      if (entry?.result && typeof entry.prompt === "string" && entry.contextKey) {
+        this.addToIndex(cacheKey, entry.contextKey, entry.prompt);
+      }
+    }
+  }
+
+  /**
+   * Add a prompt to the near-duplicate index, dropping the oldest beyond the limit
+   */
+  private addToIndex(cacheKey: string, contextKey: string, prompt: string): void {
+    // Re-insert to keep the index in least-recently-stored order
+    this.index.delete(cacheKey);
+    this.index.set(cacheKey, {
+      cacheKey,
+      contextKey,
+      prompt,
+      shingles: shingles(normalizePrompt(prompt)),
+    });
+
+    while (this.index.size > this.maxIndexedPrompts) {
+      const oldest = this.index.keys().next().value as string;
+      this.index.delete(oldest);
+    }
+  }
+
+  /**
+   * Key over everything but the prompt (model, system prompt, parameters)
+   */
+  private getContextKey(input: CacheKeyInput): string {
+    return generateCacheKey({ ...input, prompt: "" });
+  }
+}
@@ -0,0 +1,269 @@
+/**
+ * Usage and cost tracking
+ * Prices every API call, keeps daily and per-conversation totals,
+ * and enforces the configured spend caps
+ */
+
+import fs from "node:fs";
+import path from "node:path";
+import type {
+  IModelSelector,
+  IUsageTracker,
+  ModelPricing,
+  TokenUsage,
+  UsageSummary,
+  UsageTotals,
+} from "../types/index.js";
+import { BudgetExceededError } from "../types/index.js";
+import { writeFileAtomicSync } from "../utils/AtomicWrite.js";
+
+// Daily totals older than this are dropped (covers the current month)
+const DAY_RETENTION = 62;
+
+interface UsageState {
+  days: Record<string, UsageTotals>;
+  conversations: Record<string, UsageTotals>;
+}
+
+export interface UsageLimits {
+  dailyUsd: number; // 0 = unlimited
+  monthlyUsd: number; // 0 = unlimited
+}
+
+export class UsageTracker implements IUsageTracker {
+  private state: UsageState;
+
+  constructor(
+    private readonly modelSelector: IModelSelector,
+    private readonly limits: UsageLimits,
+    private readonly filePath?: string,
+  ) {
+    this.state = this.load();
+  }
+
+  /**
+   * Throw BudgetExceededError if a spend cap has been reached
+   */
+  public checkBudget(): void {
+    const { dailyUsd, monthlyUsd } = this.limits;
+    const now = new Date();
+
+    if (dailyUsd > 0) {
+      const spent = this.getDayTotals(toDateKey(now)).cost_usd;
+      if (spent >= dailyUsd) {
+        throw new BudgetExceededError(
+          `Daily spend limit reached: $${spent.toFixed(4)} of $${dailyUsd.toFixed(2)} used today (UTC). Raise DAILY_SPEND_LIMIT_USD or try again tomorrow.`,
+          spent,
+          dailyUsd,
+        );
+      }
+    }
+
+    if (monthlyUsd > 0) {
+      const spent = this.getMonthTotals(toMonthKey(now)).cost_usd;
+      if (spent >= monthlyUsd) {
+        throw new BudgetExceededError(
+          `Monthly spend limit reached: $${spent.toFixed(4)} of $${monthlyUsd.toFixed(2)} used this month (UTC). Raise MONTHLY_SPEND_LIMIT_USD or wait for next month.`,
+          spent,
+          monthlyUsd,
+        );
+      }
+    }
+  }
+
+  /**
+   * Record an API call and return its cost in USD
+   * Models without pricing are counted at zero cost
+   */
+  public record(
+    model: string,
+    usage: TokenUsage,
+    conversationId?: string,
+  ): number {
+    const pricing = this.modelSelector.resolveModel(model)?.pricing;
+    const cost = pricing ? calculateCost(pricing, usage) : 0;
+    const dateKey = toDateKey(new Date());
+
+    this.state.days[dateKey] = addUsage(
+      this.state.days[dateKey],
+      usage,
+      cost,
+    );
+    if (conversationId) {
+      this.state.conversations[conversationId] = addUsage(
+        this.state.conversations[conversationId],
+        usage,
+        cost,
+      );
+    }
+
+    this.pruneOldDays();
+    this.save();
+
+    return cost;
+  }
+
+  /**
+   * Get today's and this month's totals, optionally for one conversation
+   */
+  public getSummary(conversationId?: string): UsageSummary {
+    const now = new Date();
+    const date = toDateKey(now);
+    const month = toMonthKey(now);
+
+    return {
+      date,
+      today: this.getDayTotals(date),
+      month,
+      this_month: this.getMonthTotals(month),
+      limits: {
+        daily_usd: this.limits.dailyUsd > 0 ? this.limits.dailyUsd : null,
+        monthly_usd: this.limits.monthlyUsd > 0 ? this.limits.monthlyUsd : null,
+      },
+      ...(conversationId
+        ? {
+            conversation: {
+              id: conversationId,
+              totals:
+                this.state.conversations[conversationId] ?? emptyTotals(),
+            },
+          }
+        : {}),
+    };
+  }
+
+  /**
+   * Drop the usage of deleted conversations, or of every conversation
+   * Daily totals, and so the spend caps, are unaffected.
+   */
+  public forgetConversations(conversationIds?: string[]): void {
+    if (conversationIds) {
+      for (const conversationId of conversationIds) {
+        delete this.state.conversations[conversationId];
+      }
+    } else {
+      this.state.conversations = {};
+    }
+    this.save();
+  }
+
+  /**
+   * Get totals for a single UTC day
+   */
+  private getDayTotals(dateKey: string): UsageTotals {
+    return this.state.days[dateKey] ?? emptyTotals();
+  }
+
+  /**
+   * Get totals for a UTC month by summing its days
+   */
+  private getMonthTotals(monthKey: string): UsageTotals {
+    return Object.entries(this.state.days)
+      .filter(([dateKey]) => dateKey.startsWith(monthKey))
+      .reduce(
+        (total, [, day]) => ({
+          cost_usd: total.cost_usd + day.cost_usd,
+          prompt_tokens: total.prompt_tokens + day.prompt_tokens,
+          completion_tokens: total.completion_tokens + day.completion_tokens,
+          total_tokens: total.total_tokens + day.total_tokens,
+          requests: total.requests + day.requests,
+        }),
+        emptyTotals(),
+      );
+  }
+
+  /**
+   * Drop daily totals past the retention window
+   */
+  private pruneOldDays(): void {
+    const cutoff = toDateKey(new Date(Date.now() - DAY_RETENTION * 86400000));
+    for (const dateKey of Object.keys(this.state.days)) {
+      if (dateKey < cutoff) {
+        delete this.state.days[dateKey];
+      }
+    }
+  }
+
+  /**
+   * Load persisted usage (if a usage file is configured)
+   */
+  private load(): UsageState {
+    const empty: UsageState = { days: {}, conversations: {} };
+    if (!this.filePath) {
+      return empty;
+    }
+
+    try {
+      const state = JSON.parse(fs.readFileSync(this.filePath, "utf8")) as UsageState;
+      return {
+        days: state.days ?? {},
+        conversations: state.conversations ?? {},
+      };
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+        console.error(`[Usage] Failed to read ${this.filePath}, starting fresh:`, error);
+      }
+      return empty;
+    }
+  }
+
+  /**
+   * Persist usage (if a usage file is configured)
+   */
+  private save(): void {
+    if (!this.filePath) {
+      return;
+    }
+
+    try {
+      fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+      writeFileAtomicSync(this.filePath, JSON.stringify(this.state));
+    } catch (error) {
+      console.error(`[Usage] Failed to write ${this.filePath}:`, error);
+    }
+  }
+}
+
+/**
+ * Calculate the USD cost of a call from per-million-token pricing
+ */
+export function calculateCost(pricing: ModelPricing, usage: TokenUsage): number {
+  return (
+    ((usage.prompt_tokens || 0) * pricing.prompt +
+      (usage.completion_tokens || 0) * pricing.completion) /
+    1_000_000
+  );
+}
+
+function emptyTotals(): UsageTotals {
+  return {
+    cost_usd: 0,
+    prompt_tokens: 0,
+    completion_tokens: 0,
+    total_tokens: 0,
+    requests: 0,
+  };
+}
+
+function addUsage(
+  totals: UsageTotals | undefined,
+  usage: TokenUsage,
+  cost: number,
+): UsageTotals {
+  const base = totals ?? emptyTotals();
+  return {
+    cost_usd: base.cost_usd + cost,
+    prompt_tokens: base.prompt_tokens + (usage.prompt_tokens || 0),
+    completion_tokens: base.completion_tokens + (usage.completion_tokens || 0),
+    total_tokens: base.total_tokens + (usage.total_tokens || 0),
+    requests: base.requests + 1,
+  };
+}
+
+function toDateKey(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+function toMonthKey(date: Date): string {
+  return date.toISOString().slice(0, 7);
+}
@@ -7,24 +7,56 @@ import { Server } from "@modelcontextprotocol/sdk/server/index.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
 import {
   CallToolRequestSchema,
+  GetPromptRequestSchema,
+  ListPromptsRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
   ListToolsRequestSchema,
+  ReadResourceRequestSchema,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
   type CallToolRequest,
 } from "@modelcontextprotocol/sdk/types.js";
 import type { ConsultationService } from "../services/ConsultationService.js";
+import type { ModelCatalogService } from "../services/ModelCatalogService.js";
+import type { DiffReviewService } from "../services/DiffReviewService.js";
+import type { HistoryManager } from "../infrastructure/HistoryManager.js";
+import type { PromptLibrary } from "../services/PromptLibrary.js";
 import { ToolHandler } from "./handlers/ToolHandler.js";
+import { conversationUri, ResourceHandler } from "./handlers/ResourceHandler.js";
+import { PromptHandler } from "./handlers/PromptHandler.js";
+import { ProgressNotifier } from "./ProgressNotifier.js";
 import { getToolDefinitions } from "./ToolDefinitions.js";
 import { Config } from "../config/Config.js";
 
 export class MCPServer {
   private server: Server;
   private toolHandler: ToolHandler;
+  private resourceHandler: ResourceHandler;
+  private promptHandler: PromptHandler;
+  private promptLibrary: PromptLibrary;
   private consultationService: ConsultationService;
+  private subscriptions: Set<string>;
   private config: Config;
 
-  constructor(consultationService: ConsultationService) {
+  constructor(
+    consultationService: ConsultationService,
+    modelCatalog: ModelCatalogService,
+    diffReviewService: DiffReviewService,
+    historyManager: HistoryManager,
+    promptLibrary: PromptLibrary,
+  ) {
     this.config = Config.getInstance();
     this.consultationService = consultationService;
-    this.toolHandler = new ToolHandler(consultationService);
+    this.toolHandler = new ToolHandler(
+      consultationService,
+      modelCatalog,
+      diffReviewService,
+    );
+    this.resourceHandler = new ResourceHandler(historyManager);
+    this.promptLibrary = promptLibrary;
+    this.promptHandler = new PromptHandler(promptLibrary, consultationService);
+    this.subscriptions = new Set();
 
     if (this.config.verboseLogging) {
       console.error("[MCP Server] Initializing MCP server");
@@ -37,18 +69,61 @@ export class MCPServer {
       },
       {
         capabilities: {
-          tools: {},
+          tools: { listChanged: true },
+          resources: { subscribe: true, listChanged: true },
+          prompts: {},
         },
       },
     );
 
     this.setupHandlers();
 
+    // Model enums in the tool schemas follow the catalog
+    modelCatalog.on("modelsChanged", () => {
+      if (this.config.verboseLogging) {
+        console.error("[MCP Server] Models changed, sending tools/list_changed");
+      }
+      this.server.sendToolListChanged().catch((error) => {
+        console.error("[MCP Server] Failed to send tools/list_changed:", error);
+      });
+    });
+
+    // Conversation resources follow the history
+    historyManager.on("conversationUpdated", (conversationId: string) => {
+      this.notifyConversationUpdated(conversationId);
+    });
+    historyManager.on("conversationsChanged", () => {
+      this.server.sendResourceListChanged().catch((error) => {
+        console.error("[MCP Server] Failed to send resources/list_changed:", error);
+      });
+    });
+
     if (this.config.verboseLogging) {
       console.error("[MCP Server] MCP server initialized successfully");
     }
   }
 
+  /**
+   * Notify subscribers of a conversation's resources that it changed
+   */
+  private notifyConversationUpdated(conversationId: string): void {
+    for (const uri of [
+      conversationUri(conversationId),
+      conversationUri(conversationId, "json"),
+    ]) {
+      if (!this.subscriptions.has(uri)) {
+        continue;
+      }
+
+      if (this.config.verboseLogging) {
+        console.error(`[MCP Server] Sending resources/updated for ${uri}`);
+      }
+      this.server.sendResourceUpdated({ uri }).catch((error) => {
+        console.error("[MCP Server] Failed to send resources/updated:", error);
+      });
+    }
+  }
+
   /**
    * Setup MCP request handlers
    */
@@ -63,8 +138,12 @@ export class MCPServer {
         console.error("[MCP Server] Received ListTools request");
       }
 
-      const modelNames = this.consultationService.listModels().map((m) => m.name);
-      const tools = getToolDefinitions(modelNames);
+      const modelNames = this.consultationService.listModelNames();
+      const personaNames = this.consultationService
+        .listPersonas()
+        .map((p) => p.name);
+      const templateNames = this.promptLibrary.list().map((t) => t.name);
+      const tools = getToolDefinitions(modelNames, personaNames, templateNames);
 
       if (this.config.verboseLogging) {
         console.error(`[MCP Server] Returning ${tools.length} tool definitions`);
@@ -76,16 +155,72 @@ export class MCPServer {
     // Call tool handler
     this.server.setRequestHandler(
       CallToolRequestSchema,
-      async (request: CallToolRequest) => {
+      async (request: CallToolRequest, extra) => {
         if (this.config.verboseLogging) {
           console.error("[MCP Server] Received CallTool request");
         }
 
-        const result = await this.toolHandler.handleToolCall(request);
-        return result as any; // MCP SDK type compatibility
+        // Stream progress back only if the client asked for it
+        const progressToken = request.params._meta?.progressToken;
+        const notifier =
+          progressToken !== undefined
+            ? new ProgressNotifier(progressToken, extra.sendNotification)
+            : null;
+
+        try {
+          // Rate limits apply per session, or per client over stdio
+          const result = await this.toolHandler.handleToolCall(request, {
+            onProgress: notifier?.report,
+            clientId: extra.sessionId ?? this.server.getClientVersion()?.name,
+          });
+          return result as any; // MCP SDK type compatibility
+        } finally {
+          notifier?.flush();
+        }
       },
     );
 
+    // Resource handlers
+    this.server.setRequestHandler(ListResourcesRequestSchema, async () =>
+      this.resourceHandler.listResources(),
+    );
+
+    this.server.setRequestHandler(ListResourceTemplatesRequestSchema, async () =>
+      this.resourceHandler.listResourceTemplates(),
+    );
+
+    this.server.setRequestHandler(ReadResourceRequestSchema, async (request) =>
+      this.resourceHandler.readResource(request.params.uri),
+    );
+
+    this.server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+      if (this.config.verboseLogging) {
+        console.error(`[MCP Server] Subscribed to ${request.params.uri}`);
+      }
+      this.subscriptions.add(request.params.uri);
+      return {};
+    });
+
+    this.server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+      if (this.config.verboseLogging) {
+        console.error(`[MCP Server] Unsubscribed from ${request.params.uri}`);
+      }
+      this.subscriptions.delete(request.params.uri);
+      return {};
+    });
+
+    // Prompt handlers
+    this.server.setRequestHandler(ListPromptsRequestSchema, async () =>
+      this.promptHandler.listPrompts(),
+    );
+
+    this.server.setRequestHandler(GetPromptRequestSchema, async (request) =>
+      this.promptHandler.getPrompt(
+        request.params.name,
+        request.params.arguments,
+      ),
+    );
+
     if (this.config.verboseLogging) {
       console.error("[MCP Server] Request handlers configured");
     }
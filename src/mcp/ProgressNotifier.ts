@@ -0,0 +1,80 @@
+/**
+ * Progress notifier
+ * Forwards consultation progress to the client as MCP progress notifications
+ */
+
+import type {
+  ProgressToken,
+  ServerNotification,
+} from "@modelcontextprotocol/sdk/types.js";
+import type { ProgressHandler, ProgressUpdate } from "../types/index.js";
+
+export class ProgressNotifier {
+  private pendingMessage = "";
+  private pendingIsDelta = false;
+  private latest: ProgressUpdate | null = null;
+  private lastSentAt = 0;
+  private timer: NodeJS.Timeout | null = null;
+
+  constructor(
+    private readonly progressToken: ProgressToken,
+    private readonly send: (notification: ServerNotification) => Promise<void>,
+    private readonly minIntervalMs: number = 250,
+  ) {}
+
+  /**
+   * Report a progress update
+   * Updates are coalesced so fast streams don't flood the client; messages
+   * from coalesced updates are kept: stream deltas are concatenated, status
+   * messages go on separate lines.
+   */
+  public readonly report: ProgressHandler = (update) => {
+    this.latest = update;
+    if (update.message) {
+      const continues = update.delta === true && this.pendingIsDelta;
+      this.pendingMessage +=
+        this.pendingMessage && !continues ? `\n${update.message}` : update.message;
+      this.pendingIsDelta = update.delta === true;
+    }
+
+    const elapsed = Date.now() - this.lastSentAt;
+    if (elapsed >= this.minIntervalMs) {
+      this.flush();
+    } else if (!this.timer) {
+      this.timer = setTimeout(() => this.flush(), this.minIntervalMs - elapsed);
+    }
+  };
+
+  /**
+   * Send any pending update immediately
+   * Call before the request completes; progress after the response is invalid
+   */
+  public flush(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    if (!this.latest) {
+      return;
+    }
+
+    const { progress, total } = this.latest;
+    const message = this.pendingMessage;
+    this.latest = null;
+    this.pendingMessage = "";
+    this.pendingIsDelta = false;
+    this.lastSentAt = Date.now();
+
+    this.send({
+      method: "notifications/progress",
+      params: {
+        progressToken: this.progressToken,
+        progress,
+        ...(total !== undefined ? { total } : {}),
+        ...(message ? { message } : {}),
+      },
+    }).catch((error) => {
+      console.error("[MCP] Failed to send progress notification:", error);
+    });
+  }
+}
@@ -8,18 +8,36 @@ import type { ToolDefinition } from "../types/index.js";
 /**
  * Get all tool definitions
  */
-export function getToolDefinitions(modelNames: string[]): ToolDefinition[] {
+export function getToolDefinitions(
+  modelNames: string[],
+  personaNames: string[],
+  templateNames: string[],
+): ToolDefinition[] {
   return [
     {
       name: "consult_ai",
       description:
-        "Consult with an AI model via OpenRouter. You can either specify a model or let the system auto-select based on your task. For sequential multi-model consultation, use the 'models' parameter to specify multiple models.",
+        "Consult with an AI model via OpenRouter. You can either specify a model or let the system auto-select based on your task. For multi-model consultation, use the 'models' parameter to specify multiple models; they are consulted in parallel by default.",
       inputSchema: {
         type: "object",
         properties: {
           prompt: {
             type: "string",
-            description: "The question or task to send to the AI model",
+            description:
+              "The question or task to send to the AI model. Required unless 'template' is given, in which case it is appended to the rendered template.",
+          },
+          template: {
+            type: "string",
+            description: `Optional: Prompt template to render as the prompt (${templateNames.map((t) => `'${t}'`).join(", ")}). The template's preferred models and persona are used unless 'model', 'models' or 'persona' are given. The same templates are available as MCP prompts.`,
+            enum: templateNames,
+          },
+          template_args: {
+            type: "object",
+            description:
+              "Optional: Values for the template's arguments, e.g. { \"code\": \"...\" }",
+            additionalProperties: {
+              type: "string",
+            },
           },
           model: {
             type: "string",
@@ -28,17 +46,106 @@ export function getToolDefinitions(modelNames: string[]): ToolDefinition[] {
           },
           models: {
             type: "array",
-            description: `Optional: Array of models to consult sequentially (e.g., ["gemini-2.5-pro", "gpt-5-codex"]). When specified, the prompt will be sent to each model in order and responses will be aggregated. This parameter takes precedence over 'model'.`,
+            description: `Optional: Array of models to consult (e.g., ${JSON.stringify(modelNames.slice(0, 2))}). When specified, the prompt will be sent to each model and responses will be aggregated in the order given. This parameter takes precedence over 'model'.`,
             items: {
               type: "string",
               enum: modelNames,
             },
           },
+          mode: {
+            type: "string",
+            description:
+              "Optional: How to consult multiple models. 'parallel' (default) sends the prompt to all models at once; 'sequential' waits for each model before the next.",
+            enum: ["parallel", "sequential"],
+          },
+          model_timeout_ms: {
+            type: "number",
+            description:
+              "Optional: Per-model timeout in milliseconds for multi-model consultation. Models that exceed it are reported as errors while the other responses are still returned.",
+          },
+          synthesize_with: {
+            type: "string",
+            description:
+              "Optional: Model that merges the multi-model answers into one consensus answer listing agreements, disagreements and a recommendation. Only used together with 'models'; the individual answers remain available in 'responses'.",
+            enum: modelNames,
+          },
+          debate_rounds: {
+            type: "number",
+            description:
+              "Optional: Number of debate rounds (1-5) between the models in 'models'. Round 1 collects independent answers; in each later round every model reads the others' previous answers, critiques them and revises its own. The response includes the per-round transcript in 'rounds' and the final positions in 'responses'. Default: 1 (no debate).",
+          },
           task_description: {
             type: "string",
             description:
               "Optional: Brief description of the task type to help auto-select the best model (e.g., 'coding task', 'complex analysis', 'quick question')",
           },
+          files: {
+            type: "array",
+            description:
+              "Optional: Local file paths or globs (e.g. 'src/**/*.ts') the server reads and attaches to the prompt, each in a fenced block labelled with its path. Only available when the server sets FILE_ROOTS. Relative paths resolve against the first allowed root; files outside the allowed roots are rejected, and binary or oversized files are skipped. The response reports attached and skipped files with token estimates.",
+            items: {
+              type: "string",
+            },
+          },
+          persona: {
+            type: "string",
+            description: `Optional: Named persona applied as the system message (${personaNames.map((p) => `'${p}'`).join(", ")}). Use list_personas to see what each one does. Within a conversation the persona is kept for later turns.`,
+            enum: personaNames,
+          },
+          system_prompt: {
+            type: "string",
+            description:
+              "Optional: Free-form system message for the model, e.g. 'Answer as a senior Postgres DBA'. Appended to the persona when both are given. Within a conversation it is kept for later turns until replaced.",
+          },
+          temperature: {
+            type: "number",
+            minimum: 0,
+            maximum: 2,
+            description:
+              "Optional: Sampling temperature from 0 (most deterministic) to 2. Overrides the model's configured default.",
+          },
+          max_tokens: {
+            type: "integer",
+            minimum: 1,
+            description:
+              "Optional: Maximum number of tokens to generate in the answer",
+          },
+          top_p: {
+            type: "number",
+            exclusiveMinimum: 0,
+            maximum: 1,
+            description:
+              "Optional: Nucleus sampling: only consider tokens within this cumulative probability",
+          },
+          stop: {
+            type: ["string", "array"],
+            items: {
+              type: "string",
+            },
+            description:
+              "Optional: Up to 4 sequences at which generation stops",
+          },
+          seed: {
+            type: "integer",
+            description:
+              "Optional: Seed for best-effort reproducible sampling, where the model supports it",
+          },
+          reasoning_effort: {
+            type: "string",
+            enum: ["low", "medium", "high"],
+            description:
+              "Optional: How much the model reasons before answering. Only for reasoning models.",
+          },
+          fallback: {
+            type: "boolean",
+            description:
+              "Optional: When the model fails with a server error, rate limit, timeout or open circuit, retry with its configured fallback models. The response names the model that answered and why earlier ones were skipped. Default: true",
+          },
+          response_schema: {
+            type: "object",
+            description:
+              "Optional: JSON Schema the answer must match, e.g. a list of findings or a yes/no verdict with rationale. Sent as a structured-output format to models that support it, otherwise as prompt instructions. Answers that fail validation are sent back for repair a limited number of times. The parsed JSON is returned as 'parsed' next to the raw response, and 'structured_output' reports whether it validated.",
+          },
           conversation_id: {
             type: "string",
             description:
@@ -50,7 +157,218 @@ export function getToolDefinitions(modelNames: string[]): ToolDefinition[] {
               "Optional: Set to true to clear the conversation history for the given conversation_id before processing this request.",
           },
         },
-        required: ["prompt"],
+      },
+    },
+    {
+      name: "consult_on_diff",
+      description:
+        "Get a code review of pending git changes from an AI model. Reads `git diff` from a local repository (staged, unstaged or a ref range), reviews each changed file separately (splitting very large diffs), and returns per-file feedback.",
+      inputSchema: {
+        type: "object",
+        properties: {
+          repo_path: {
+            type: "string",
+            description:
+              "Optional: Path to the git repository, inside the allowed file roots. Repositories can only be read when the server sets FILE_ROOTS. Relative paths resolve against the first root. Default: the first root",
+          },
+          source: {
+            type: "string",
+            description:
+              "Optional: Which changes to review: 'unstaged' (working tree vs index, default), 'staged' (index vs HEAD) or 'range' (requires ref_range)",
+            enum: ["staged", "unstaged", "range"],
+          },
+          ref_range: {
+            type: "string",
+            description:
+              "Optional: Commit or range to diff against, e.g. 'main...HEAD' or 'HEAD~3'. Implies source 'range'.",
+          },
+          paths: {
+            type: "array",
+            description:
+              "Optional: Limit the review to these paths (git pathspecs relative to the repository)",
+            items: {
+              type: "string",
+            },
+          },
+          model: {
+            type: "string",
+            description:
+              "Optional: Model to review with. If not specified, a model suited to code review is selected.",
+            enum: modelNames,
+          },
+          system_prompt: {
+            type: "string",
+            description:
+              "Optional: Extra review instructions, e.g. 'Focus on concurrency and error handling'",
+          },
+        },
+      },
+    },
+    {
+      name: "refresh_models",
+      description:
+        "Sync model metadata (context length, pricing, modalities) from the OpenRouter model catalog. Stale models are dropped and models matching MODEL_CATALOG_INCLUDE are added; the tool list is updated if the available models change.",
+      inputSchema: {
+        type: "object",
+        properties: {},
+      },
+    },
+    {
+      name: "get_usage",
+      description:
+        "Get token usage and spend (USD) for today and this month, the configured spend limits, the requests and tokens left in this client's per-minute rate limit, and optionally the totals for one conversation",
+      inputSchema: {
+        type: "object",
+        properties: {
+          conversation_id: {
+            type: "string",
+            description:
+              "Optional: Conversation ID to include per-conversation totals for",
+          },
+        },
+      },
+    },
+    {
+      name: "get_circuit_breakers",
+      description:
+        "Show the circuit breaker of each model (or provider) that has been called: state (CLOSED, OPEN or HALF_OPEN), thresholds and call counts. Models with an open circuit fail fast and are skipped in multi-model consultations.",
+      inputSchema: {
+        type: "object",
+        properties: {},
+      },
+    },
+    {
+      name: "list_conversations",
+      description:
+        "List stored conversations, most recently active first, with turn count, models used, last activity and token usage",
+      inputSchema: {
+        type: "object",
+        properties: {},
+      },
+    },
+    {
+      name: "get_conversation",
+      description:
+        "Read a stored conversation: every message with the model that wrote it, plus its summary",
+      inputSchema: {
+        type: "object",
+        properties: {
+          conversation_id: {
+            type: "string",
+            description: "The conversation to read",
+          },
+          format: {
+            type: "string",
+            description:
+              "Optional: 'markdown' (default) for a readable transcript or 'json' for structured messages with metadata",
+            enum: ["markdown", "json"],
+          },
+        },
+        required: ["conversation_id"],
+      },
+    },
+    {
+      name: "delete_conversation",
+      description:
+        "Delete a stored conversation, or every conversation with 'all: true'",
+      inputSchema: {
+        type: "object",
+        properties: {
+          conversation_id: {
+            type: "string",
+            description: "The conversation to delete",
+          },
+          all: {
+            type: "boolean",
+            description:
+              "Optional: Set to true (without conversation_id) to delete all conversations",
+          },
+        },
+      },
+    },
+    {
+      name: "fork_conversation",
+      description:
+        "Copy the first N turns of a conversation into a new conversation, to explore an alternative follow-up without changing the original thread. Continue the fork with consult_ai using the returned conversation_id.",
+      inputSchema: {
+        type: "object",
+        properties: {
+          conversation_id: {
+            type: "string",
+            description: "The conversation to fork",
+          },
+          turn: {
+            type: "integer",
+            minimum: 0,
+            description:
+              "Number of turns (question and answer pairs) to keep in the fork, counted from the start. 0 keeps only the system prompt, and is rejected for conversations without one.",
+          },
+          new_conversation_id: {
+            type: "string",
+            description:
+              "Optional: ID for the new conversation. Generated when omitted.",
+          },
+        },
+        required: ["conversation_id", "turn"],
+      },
+    },
+    {
+      name: "export_conversation",
+      description:
+        "Export a conversation for sharing, e.g. in a PR or design doc: markdown for reading, structured JSON, or OpenAI-format JSONL (one chat message per line). Every turn carries model attribution, timestamp and token usage. JSON and JSONL exports can be loaded again with import_conversation.",
+      inputSchema: {
+        type: "object",
+        properties: {
+          conversation_id: {
+            type: "string",
+            description: "The conversation to export",
+          },
+          format: {
+            type: "string",
+            enum: ["markdown", "json", "jsonl"],
+            description: "Optional: Export format. Default: markdown",
+          },
+        },
+        required: ["conversation_id"],
+      },
+    },
+    {
+      name: "import_conversation",
+      description:
+        "Seed a conversation from a JSON or JSONL export so the discussion can be continued with consult_ai, e.g. on another machine. Markdown exports cannot be imported.",
+      inputSchema: {
+        type: "object",
+        properties: {
+          content: {
+            type: "string",
+            description: "The exported JSON or JSONL text",
+          },
+          format: {
+            type: "string",
+            enum: ["json", "jsonl"],
+            description: "Optional: Format of the content. Detected when omitted.",
+          },
+          conversation_id: {
+            type: "string",
+            description:
+              "Optional: ID to import into. Defaults to the ID stored in a JSON export; required for JSONL.",
+          },
+          overwrite: {
+            type: "boolean",
+            description:
+              "Optional: Replace an existing conversation with the same ID. Default: false",
+          },
+        },
+        required: ["content"],
+      },
+    },
+    {
+      name: "list_personas",
+      description:
+        "List the personas (system-prompt presets) available for the consult_ai 'persona' argument",
+      inputSchema: {
+        type: "object",
+        properties: {},
       },
     },
     {
@@ -0,0 +1,86 @@
+/**
+ * MCP Prompt Handler
+ * Publishes consultation templates through the MCP prompts capability
+ */
+
+import type {
+  GetPromptResult,
+  ListPromptsResult,
+} from "@modelcontextprotocol/sdk/types.js";
+import type { PromptLibrary } from "../../services/PromptLibrary.js";
+import type { ConsultationService } from "../../services/ConsultationService.js";
+import { Config } from "../../config/Config.js";
+
+export class PromptHandler {
+  private readonly config: Config;
+
+  constructor(
+    private readonly promptLibrary: PromptLibrary,
+    private readonly consultationService: ConsultationService,
+  ) {
+    this.config = Config.getInstance();
+  }
+
+  /**
+   * Handle prompts/list
+   */
+  public listPrompts(): ListPromptsResult {
+    const prompts = this.promptLibrary.list().map((template) => ({
+      name: template.name,
+      description: template.description,
+      arguments: template.arguments.map((arg) => ({
+        name: arg.name,
+        description: arg.description,
+        required: arg.required ?? false,
+      })),
+    }));
+
+    if (this.config.verboseLogging) {
+      console.error(`[MCP] Listing ${prompts.length} prompt templates`);
+    }
+
+    return { prompts };
+  }
+
+  /**
+   * Handle prompts/get
+   * The returned message asks the agent to run the rendered prompt through
+   * consult_ai with the template's preferred models and persona.
+   */
+  public getPrompt(
+    name: string,
+    args: Record<string, string> = {},
+  ): GetPromptResult {
+    const template = this.promptLibrary.get(name);
+    const rendered = this.promptLibrary.render(name, args);
+
+    const known = new Set(this.consultationService.listModelNames());
+    const models = (rendered.models ?? []).filter((m) => known.has(m));
+    const toolArgs = [
+      models.length === 1 ? `model: "${models[0]}"` : undefined,
+      models.length > 1 ? `models: ${JSON.stringify(models)}` : undefined,
+      rendered.persona ? `persona: "${rendered.persona}"` : undefined,
+    ].filter((arg): arg is string => arg !== undefined);
+
+    if (this.config.verboseLogging) {
+      console.error(`[MCP] Rendering prompt template: ${name}`);
+    }
+
+    const instruction = toolArgs.length > 0
+      ? `Use the consult_ai tool (${toolArgs.join(", ")}) with the following prompt:`
+      : "Use the consult_ai tool with the following prompt:";
+
+    return {
+      description: template?.description,
+      messages: [
+        {
+          role: "user",
+          content: {
+            type: "text",
+            text: `${instruction}\n\n${rendered.prompt}`,
+          },
+        },
+      ],
+    };
+  }
+}
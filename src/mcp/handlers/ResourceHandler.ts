@@ -0,0 +1,140 @@
+/**
+ * MCP Resource Handler
+ * Publishes stored conversations as conversation://{id} resources
+ */
+
+import type {
+  ListResourcesResult,
+  ListResourceTemplatesResult,
+  ReadResourceResult,
+} from "@modelcontextprotocol/sdk/types.js";
+import type {
+  ConversationFormat,
+  IHistoryManager,
+} from "../../types/index.js";
+import { formatConversation } from "../../services/ConversationFormatter.js";
+import { Config } from "../../config/Config.js";
+
+const URI_SCHEME = "conversation://";
+const MIME_TYPES: Record<ConversationFormat, string> = {
+  markdown: "text/markdown",
+  json: "application/json",
+  jsonl: "application/jsonl",
+};
+
+/**
+ * Build the resource URI of a conversation
+ * Markdown is the default rendering; JSON is selected with ?format=json
+ */
+export function conversationUri(
+  conversationId: string,
+  format: ConversationFormat = "markdown",
+): string {
+  const uri = `${URI_SCHEME}${encodeURIComponent(conversationId)}`;
+  return format === "json" ? `${uri}?format=json` : uri;
+}
+
+/**
+ * Parse a conversation resource URI
+ * Returns undefined for URIs that are not conversation resources
+ */
+export function parseConversationUri(
+  uri: string,
+): { conversationId: string; format: ConversationFormat } | undefined {
+  const match = uri.match(/^conversation:\/\/([^?]+)(?:\?format=(markdown|json))?$/);
+  if (!match) {
+    return undefined;
+  }
+
+  try {
+    return {
+      conversationId: decodeURIComponent(match[1]),
+      format: (match[2] as ConversationFormat | undefined) ?? "markdown",
+    };
+  } catch {
+    return undefined;
+  }
+}
+
+export class ResourceHandler {
+  private readonly config: Config;
+
+  constructor(private readonly historyManager: IHistoryManager) {
+    this.config = Config.getInstance();
+  }
+
+  /**
+   * Handle resources/list: one markdown resource per stored conversation
+   */
+  public listResources(): ListResourcesResult {
+    const resources = this.historyManager
+      .getAllConversationIds()
+      .map((id) => this.historyManager.getConversation(id))
+      .filter((record) => record !== undefined)
+      .sort((a, b) => b.updatedAt - a.updatedAt)
+      .map((record) => ({
+        uri: conversationUri(record.id),
+        name: `conversation-${record.id}`,
+        title: `Conversation ${record.id}`,
+        description: `${record.messages.length} messages, last updated ${new Date(record.updatedAt).toISOString()}`,
+        mimeType: MIME_TYPES.markdown,
+      }));
+
+    if (this.config.verboseLogging) {
+      console.error(`[MCP] Listing ${resources.length} conversation resources`);
+    }
+
+    return { resources };
+  }
+
+  /**
+   * Handle resources/templates/list
+   */
+  public listResourceTemplates(): ListResourceTemplatesResult {
+    return {
+      resourceTemplates: [
+        {
+          uriTemplate: `${URI_SCHEME}{id}`,
+          name: "conversation",
+          description: "A stored consultation thread rendered as markdown",
+          mimeType: MIME_TYPES.markdown,
+        },
+        {
+          uriTemplate: `${URI_SCHEME}{id}?format=json`,
+          name: "conversation-json",
+          description: "A stored consultation thread as structured JSON",
+          mimeType: MIME_TYPES.json,
+        },
+      ],
+    };
+  }
+
+  /**
+   * Handle resources/read
+   */
+  public readResource(uri: string): ReadResourceResult {
+    const parsed = parseConversationUri(uri);
+    if (!parsed) {
+      throw new Error(`Unknown resource URI: ${uri}`);
+    }
+
+    const record = this.historyManager.getConversation(parsed.conversationId);
+    if (!record) {
+      throw new Error(`Conversation not found: ${parsed.conversationId}`);
+    }
+
+    if (this.config.verboseLogging) {
+      console.error(`[MCP] Reading conversation ${record.id} as ${parsed.format}`);
+    }
+
+    return {
+      contents: [
+        {
+          uri,
+          mimeType: MIME_TYPES[parsed.format],
+          text: formatConversation(record, parsed.format),
+        },
+      ],
+    };
+  }
+}
@@ -6,23 +6,38 @@
 import type { CallToolRequest } from "@modelcontextprotocol/sdk/types.js";
 import type {
   ConsultArgs,
+  ConsultContext,
+  DiffReviewArgs,
   ToolResponse,
   ConsultResponse,
+  MultiModelConsultResponse,
 } from "../../types/index.js";
 import type { ConsultationService } from "../../services/ConsultationService.js";
+import type { ModelCatalogService } from "../../services/ModelCatalogService.js";
+import type { DiffReviewService } from "../../services/DiffReviewService.js";
+import { formatConversationMarkdown } from "../../services/ConversationFormatter.js";
 import { Config } from "../../config/Config.js";
 
+const MAX_DEBATE_ROUNDS = 5;
+
 export class ToolHandler {
   private readonly config: Config;
 
-  constructor(private readonly consultationService: ConsultationService) {
+  constructor(
+    private readonly consultationService: ConsultationService,
+    private readonly modelCatalog: ModelCatalogService,
+    private readonly diffReviewService: DiffReviewService,
+  ) {
     this.config = Config.getInstance();
   }
 
   /**
    * Handle tool execution
    */
-  public async handleToolCall(request: CallToolRequest): Promise<ToolResponse> {
+  public async handleToolCall(
+    request: CallToolRequest,
+    context: ConsultContext = {},
+  ): Promise<ToolResponse> {
     const { name, arguments: args } = request.params;
 
     if (this.config.verboseLogging) {
@@ -38,8 +53,84 @@ export class ToolHandler {
           result = this.handleListModels();
           break;
 
+        case "list_conversations":
+          result = this.jsonResponse(
+            this.consultationService.listConversations(),
+          );
+          break;
+
+        case "get_conversation":
+          result = this.handleGetConversation(
+            (args ?? {}) as { conversation_id?: string; format?: string },
+          );
+          break;
+
+        case "delete_conversation":
+          result = this.handleDeleteConversation(
+            (args ?? {}) as { conversation_id?: string; all?: boolean },
+          );
+          break;
+
+        case "fork_conversation":
+          result = this.handleForkConversation(
+            (args ?? {}) as {
+              conversation_id?: string;
+              turn?: number;
+              new_conversation_id?: string;
+            },
+          );
+          break;
+
+        case "export_conversation":
+          result = this.handleExportConversation(
+            (args ?? {}) as { conversation_id?: string; format?: string },
+          );
+          break;
+
+        case "import_conversation":
+          result = this.handleImportConversation(
+            (args ?? {}) as {
+              content?: string;
+              format?: string;
+              conversation_id?: string;
+              overwrite?: boolean;
+            },
+          );
+          break;
+
+        case "list_personas":
+          result = this.handleListPersonas();
+          break;
+
+        case "refresh_models":
+          result = await this.handleRefreshModels();
+          break;
+
+        case "get_circuit_breakers":
+          result = this.jsonResponse(
+            this.consultationService.getCircuitBreakerStatus(),
+          );
+          break;
+
+        case "get_usage":
+          result = this.handleGetUsage(
+            args as { conversation_id?: string } | undefined,
+            context,
+          );
+          break;
+
         case "consult_ai":
-          result = await this.handleConsultAI(args as unknown as ConsultArgs);
+          result = await this.handleConsultAI(
+            args as unknown as ConsultArgs,
+            context,
+          );
+          break;
+
+        case "consult_on_diff":
+          result = await this.handleConsultOnDiff(
+            (args ?? {}) as DiffReviewArgs,
+            context,
+          );
           break;
 
         default:
@@ -84,16 +175,343 @@ export class ToolHandler {
     };
   }
 
+  /**
+   * Handle get_conversation tool
+   */
+  private handleGetConversation(args: {
+    conversation_id?: string;
+    format?: string;
+  }): ToolResponse {
+    const { conversation_id, format = "markdown" } = args;
+    if (!conversation_id) {
+      throw new Error("conversation_id is required");
+    }
+    if (format !== "markdown" && format !== "json") {
+      throw new Error(`format must be "markdown" or "json", got "${format}"`);
+    }
+
+    const { summary, record } =
+      this.consultationService.getConversation(conversation_id);
+
+    if (format === "json") {
+      return this.jsonResponse({
+        summary,
+        system_prompt: record.systemPrompt ?? null,
+        messages: record.messages,
+      });
+    }
+
+    return {
+      content: [
+        {
+          type: "text" as const,
+          text: formatConversationMarkdown(record),
+        },
+      ],
+    };
+  }
+
+  /**
+   * Handle delete_conversation tool
+   */
+  private handleDeleteConversation(args: {
+    conversation_id?: string;
+    all?: boolean;
+  }): ToolResponse {
+    if (args.all === true && args.conversation_id) {
+      throw new Error("Pass either conversation_id or all: true, not both");
+    }
+
+    if (args.all === true) {
+      const deleted = this.consultationService.deleteAllConversations();
+      if (this.config.verboseLogging) {
+        console.error(`[MCP] Deleted all ${deleted} conversations`);
+      }
+      return this.jsonResponse({ deleted });
+    }
+
+    if (!args.conversation_id) {
+      throw new Error("conversation_id is required unless all is true");
+    }
+
+    if (!this.consultationService.deleteConversation(args.conversation_id)) {
+      throw new Error(`Conversation not found: ${args.conversation_id}`);
+    }
+
+    if (this.config.verboseLogging) {
+      console.error(`[MCP] Deleted conversation ${args.conversation_id}`);
+    }
+    return this.jsonResponse({ deleted: 1, conversation_id: args.conversation_id });
+  }
+
+  /**
+   * Handle fork_conversation tool
+   */
+  private handleForkConversation(args: {
+    conversation_id?: string;
+    turn?: number;
+    new_conversation_id?: string;
+  }): ToolResponse {
+    const { conversation_id, turn, new_conversation_id } = args;
+    if (!conversation_id) {
+      throw new Error("conversation_id is required");
+    }
+    if (typeof turn !== "number" || !Number.isInteger(turn) || turn < 0) {
+      throw new Error("turn must be a non-negative integer");
+    }
+
+    const summary = this.consultationService.forkConversation(
+      conversation_id,
+      turn,
+      new_conversation_id,
+    );
+
+    return this.jsonResponse({ forked_from: conversation_id, ...summary });
+  }
+
+  /**
+   * Handle export_conversation tool
+   */
+  private handleExportConversation(args: {
+    conversation_id?: string;
+    format?: string;
+  }): ToolResponse {
+    const { conversation_id, format = "markdown" } = args;
+    if (!conversation_id) {
+      throw new Error("conversation_id is required");
+    }
+    if (format !== "markdown" && format !== "json" && format !== "jsonl") {
+      throw new Error(`format must be "markdown", "json" or "jsonl", got "${format}"`);
+    }
+
+    return {
+      content: [
+        {
+          type: "text" as const,
+          text: this.consultationService.exportConversation(conversation_id, format),
+        },
+      ],
+    };
+  }
+
+  /**
+   * Handle import_conversation tool
+   */
+  private handleImportConversation(args: {
+    content?: string;
+    format?: string;
+    conversation_id?: string;
+    overwrite?: boolean;
+  }): ToolResponse {
+    const { content, format, conversation_id, overwrite } = args;
+    if (typeof content !== "string" || !content.trim()) {
+      throw new Error("content is required");
+    }
+    if (format !== undefined && format !== "json" && format !== "jsonl") {
+      throw new Error(`format must be "json" or "jsonl", got "${format}"`);
+    }
+
+    const summary = this.consultationService.importConversation(content, {
+      conversationId: conversation_id,
+      format,
+      overwrite: overwrite === true,
+    });
+
+    return this.jsonResponse({ imported: true, ...summary });
+  }
+
+  /**
+   * Wrap a value as a JSON text tool response
+   */
+  private jsonResponse(value: unknown): ToolResponse {
+    return {
+      content: [
+        {
+          type: "text" as const,
+          text: JSON.stringify(value, null, 2),
+        },
+      ],
+    };
+  }
+
+  /**
+   * Handle list_personas tool
+   */
+  private handleListPersonas(): ToolResponse {
+    const personas = this.consultationService.listPersonas();
+
+    if (this.config.verboseLogging) {
+      console.error(`[MCP] Found ${personas.length} personas`);
+    }
+
+    return {
+      content: [
+        {
+          type: "text" as const,
+          text: JSON.stringify(personas, null, 2),
+        },
+      ],
+    };
+  }
+
+  /**
+   * Handle refresh_models tool
+   */
+  private async handleRefreshModels(): Promise<ToolResponse> {
+    if (this.config.verboseLogging) {
+      console.error("[MCP] Refreshing model catalog from OpenRouter");
+    }
+
+    const result = await this.modelCatalog.refresh();
+
+    if (this.config.verboseLogging) {
+      console.error(`[MCP] Catalog refreshed: ${result.catalog_size} catalog entries, ${result.models.length} models available`);
+    }
+
+    return {
+      content: [
+        {
+          type: "text" as const,
+          text: JSON.stringify(result, null, 2),
+        },
+      ],
+    };
+  }
+
+  /**
+   * Handle get_usage tool
+   */
+  private handleGetUsage(
+    args: { conversation_id?: string } | undefined,
+    context: ConsultContext,
+  ): ToolResponse {
+    if (this.config.verboseLogging) {
+      console.error(`[MCP] Fetching usage totals${args?.conversation_id ? ` for ${args.conversation_id}` : ""}`);
+    }
+
+    const usage = {
+      ...this.consultationService.getUsage(args?.conversation_id),
+      rate_limit: this.consultationService.getRateLimitStatus(context.clientId),
+    };
+
+    return {
+      content: [
+        {
+          type: "text" as const,
+          text: JSON.stringify(usage, null, 2),
+        },
+      ],
+    };
+  }
+
+  /**
+   * Handle consult_on_diff tool
+   */
+  private async handleConsultOnDiff(
+    args: DiffReviewArgs,
+    context: ConsultContext,
+  ): Promise<ToolResponse> {
+    const source = args.source ?? (args.ref_range ? "range" : "unstaged");
+    if (source !== "staged" && source !== "unstaged" && source !== "range") {
+      throw new Error(`source must be "staged", "unstaged" or "range", got "${source}"`);
+    }
+
+    if (source === "range" && !args.ref_range) {
+      throw new Error('ref_range is required when source is "range"');
+    }
+
+    if (
+      args.paths !== undefined &&
+      (!Array.isArray(args.paths) || !args.paths.every((p) => typeof p === "string"))
+    ) {
+      throw new Error("paths must be an array of strings");
+    }
+
+    if (this.config.verboseLogging) {
+      console.error("[MCP] Starting diff review");
+      console.error(`[MCP] Repository: ${args.repo_path || "."}`);
+      console.error(`[MCP] Source: ${source}${args.ref_range ? ` (${args.ref_range})` : ""}`);
+      console.error(`[MCP] Requested model: ${args.model || "auto-select"}`);
+    }
+
+    const result = await this.diffReviewService.review(
+      { ...args, source },
+      context,
+    );
+
+    if (this.config.verboseLogging) {
+      console.error(`[MCP] Reviewed ${result.files_reviewed} files in ${result.reviews.length} requests, cost $${result.total_cost_usd.toFixed(6)}`);
+    }
+
+    return {
+      content: [
+        {
+          type: "text" as const,
+          text: JSON.stringify(result, null, 2),
+        },
+      ],
+    };
+  }
+
   /**
    * Handle consult_ai tool
    */
-  private async handleConsultAI(args: ConsultArgs): Promise<ToolResponse> {
+  private async handleConsultAI(
+    args: ConsultArgs,
+    context: ConsultContext,
+  ): Promise<ToolResponse> {
     // Validate required arguments
-    if (!args.prompt) {
+    if (!args.prompt && !args.template) {
       if (this.config.verboseLogging) {
         console.error("[MCP] Error: prompt is required but not provided");
       }
-      throw new Error("prompt is required");
+      throw new Error("prompt is required unless a template is given");
+    }
+
+    if (
+      args.template_args !== undefined &&
+      (typeof args.template_args !== "object" ||
+        args.template_args === null ||
+        Array.isArray(args.template_args))
+    ) {
+      throw new Error("template_args must be an object of argument values");
+    }
+    args = { ...args, prompt: args.prompt ?? "" };
+
+    if (args.mode && args.mode !== "parallel" && args.mode !== "sequential") {
+      throw new Error(`mode must be "parallel" or "sequential", got "${args.mode}"`);
+    }
+
+    if (
+      args.model_timeout_ms !== undefined &&
+      (typeof args.model_timeout_ms !== "number" || args.model_timeout_ms <= 0)
+    ) {
+      throw new Error("model_timeout_ms must be a positive number");
+    }
+
+    if (
+      args.debate_rounds !== undefined &&
+      (!Number.isInteger(args.debate_rounds) ||
+        args.debate_rounds < 1 ||
+        args.debate_rounds > MAX_DEBATE_ROUNDS)
+    ) {
+      throw new Error(`debate_rounds must be an integer between 1 and ${MAX_DEBATE_ROUNDS}`);
+    }
+
+    if (
+      args.files !== undefined &&
+      (!Array.isArray(args.files) || !args.files.every((f) => typeof f === "string"))
+    ) {
+      throw new Error("files must be an array of paths or globs");
+    }
+
+    if (
+      args.response_schema !== undefined &&
+      (typeof args.response_schema !== "object" ||
+        args.response_schema === null ||
+        Array.isArray(args.response_schema))
+    ) {
+      throw new Error("response_schema must be a JSON Schema object");
     }
 
     if (this.config.verboseLogging) {
@@ -101,14 +519,23 @@ export class ToolHandler {
       console.error(`[MCP] Prompt length: ${args.prompt.length} characters`);
       console.error(`[MCP] Requested model: ${args.model || "auto-select"}`);
       console.error(`[MCP] Requested models: ${args.models ? args.models.join(", ") : "none"}`);
+      console.error(`[MCP] Multi-model mode: ${args.mode || "parallel"}`);
+      console.error(`[MCP] Synthesize with: ${args.synthesize_with || "none"}`);
+      console.error(`[MCP] Debate rounds: ${args.debate_rounds || 1}`);
       console.error(`[MCP] Task description: ${args.task_description || "none"}`);
+      console.error(`[MCP] Template: ${args.template || "none"}`);
+      console.error(`[MCP] Files: ${args.files ? args.files.join(", ") : "none"}`);
+      console.error(`[MCP] Persona: ${args.persona || "none"}`);
+      console.error(`[MCP] System prompt: ${args.system_prompt ? `${args.system_prompt.length} characters` : "none"}`);
+      console.error(`[MCP] Response schema: ${args.response_schema ? "yes" : "none"}`);
       console.error(`[MCP] Conversation ID: ${args.conversation_id || "none"}`);
       console.error(`[MCP] Clear history: ${args.clear_history || false}`);
+      console.error(`[MCP] Progress notifications: ${context.onProgress ? "enabled" : "disabled"}`);
     }
 
     // Execute consultation
     const startTime = Date.now();
-    const result = await this.consultationService.consult(args);
+    const result = await this.consultationService.consult(args, context);
     const duration = Date.now() - startTime;
 
     // Log AI response if verbose logging is enabled
@@ -119,6 +546,7 @@ export class ToolHandler {
       console.error(`Response length: ${result.response.length} characters`);
       console.error(`Response preview: ${result.response.substring(0, 200)}${result.response.length > 200 ? "..." : ""}`);
       console.error(`Tokens Used: ${JSON.stringify(result.usage, null, 2)}`);
+      console.error(`Cost: $${(result.cost_usd ?? 0).toFixed(6)}`);
       console.error(`Conversation ID: ${args.conversation_id || "N/A"}`);
       console.error(`Cached: ${result.model.includes("(cached)")}`);
       console.error(`Duration: ${duration}ms`);
@@ -126,13 +554,39 @@ export class ToolHandler {
     }
 
     // Format response
-    const response: ConsultResponse = {
-      model_used: result.model,
-      response: result.response,
-      tokens_used: result.usage,
-      conversation_id: args.conversation_id || null,
-      cached: result.model.includes("(cached)"),
-    };
+    const response: ConsultResponse | MultiModelConsultResponse =
+      result.responses
+        ? {
+            models_used: result.responses.map((r) => r.model),
+            mode: args.mode || "parallel",
+            responses: result.responses,
+            combined_response: result.response,
+            ...(result.parsed !== undefined ? { parsed: result.parsed } : {}),
+            synthesis: result.synthesis,
+            rounds: result.rounds,
+            total_tokens_used: result.usage,
+            total_cost_usd: result.cost_usd ?? 0,
+            conversation_id: args.conversation_id || null,
+            attached_files: result.attached_files,
+          }
+        : {
+            model_used: result.model,
+            response: result.response,
+            tokens_used: result.usage,
+            cost_usd: result.cost_usd ?? 0,
+            conversation_id: args.conversation_id || null,
+            cached: result.model.includes("(cached)"),
+            ...(result.cache_match ? { cache_match: result.cache_match } : {}),
+            ...(result.fallback ? { fallback: result.fallback } : {}),
+            ...(result.attempts !== undefined ? { attempts: result.attempts } : {}),
+            ...(result.parsed !== undefined ? { parsed: result.parsed } : {}),
+            ...(result.structured_output
+              ? { structured_output: result.structured_output }
+              : {}),
+            ...(result.attached_files
+              ? { attached_files: result.attached_files }
+              : {}),
+          };
 
     return {
       content: [
@@ -1,43 +1,57 @@
 /**
- * OpenRouter API client
- * Handles API calls with circuit breaker and error handling
+ * AI API client
+ * Routes consultations to the model's provider through the model's circuit
+ * breaker, retrying transient failures under the retry policy
  */
 
-import axios, { AxiosError } from "axios";
 import type {
+  ApiCallOptions,
   IApiClient,
+  IModelSelector,
   ConsultResult,
   OpenRouterMessage,
-  OpenRouterResponse,
-  ICircuitBreaker,
+  CircuitBreakerStatus,
+  ICircuitBreakerRegistry,
+  IRetryPolicy,
 } from "../types/index.js";
-import { ApiError } from "../types/index.js";
+import { ApiError, CircuitBreakerError, RateLimitError } from "../types/index.js";
 import { Config } from "../config/Config.js";
+import { isRetryableError } from "../utils/RetryPolicy.js";
 
 export class ApiClient implements IApiClient {
-  private readonly apiKey: string;
-  private readonly baseUrl: string;
-  private readonly circuitBreaker: ICircuitBreaker;
+  private readonly circuitBreakers: ICircuitBreakerRegistry;
+  private readonly modelSelector: IModelSelector;
+  private readonly retryPolicy: IRetryPolicy;
   private readonly config: Config;
 
-  constructor(apiKey: string, circuitBreaker: ICircuitBreaker) {
-    this.apiKey = apiKey;
-    this.baseUrl = "https://openrouter.ai/api/v1/chat/completions";
-    this.circuitBreaker = circuitBreaker;
+  constructor(
+    circuitBreakers: ICircuitBreakerRegistry,
+    modelSelector: IModelSelector,
+    retryPolicy: IRetryPolicy,
+  ) {
+    this.circuitBreakers = circuitBreakers;
+    this.modelSelector = modelSelector;
+    this.retryPolicy = retryPolicy;
     this.config = Config.getInstance();
   }
 
   /**
-   * Consult AI model via OpenRouter API
+   * Consult AI model via its configured provider
+   * Passing an onChunk handler streams the completion; a systemPrompt leads the messages.
+   * Each attempt goes through the circuit breaker, and the result reports how many were made.
    */
   public async consultAI(
     prompt: string,
     model: string,
     conversationHistory: OpenRouterMessage[] = [],
+    options: ApiCallOptions = {},
   ): Promise<ConsultResult> {
     try {
       // Build messages array with history
       const messages: OpenRouterMessage[] = [
+        ...(options.systemPrompt
+          ? [{ role: "system" as const, content: options.systemPrompt }]
+          : []),
         ...conversationHistory,
         {
           role: "user",
@@ -45,31 +59,54 @@ export class ApiClient implements IApiClient {
         },
       ];
 
+      const provider = this.modelSelector.getProviderForModel(model);
+
       if (this.config.verboseLogging) {
-        console.error(`[API] Sending request to OpenRouter`);
+        console.error(`[API] Sending request to ${provider}`);
         console.error(`[API] Model: ${model}`);
+        console.error(`[API] Streaming: ${options.onChunk ? "yes" : "no"}`);
         console.error(`[API] Message count: ${messages.length}`);
         console.error(`[API] Total characters: ${messages.reduce((sum, m) => sum + m.content.length, 0)}`);
       }
 
-      // Make API call through circuit breaker
+      // A retry after partial output would stream the answer twice
+      let streamed = false;
+      const onChunk = options.onChunk;
+      const callOptions: ApiCallOptions = onChunk
+        ? {
+            ...options,
+            onChunk: (delta, content) => {
+              streamed = true;
+              onChunk(delta, content);
+            },
+          }
+        : options;
+
+      // Make API call through the model's circuit breaker
       const startTime = Date.now();
-      const response = await this.circuitBreaker.fire<OpenRouterResponse>(
-        model,
-        messages,
+      const { value: result, attempts } = await this.retryPolicy.execute(
+        (attempt) => {
+          options.signal?.throwIfAborted();
+          if (attempt > 1) {
+            options.onRetry?.(attempt);
+          }
+          return this.circuitBreakers.forModel(model).fire<ConsultResult>(
+            provider,
+            model,
+            messages,
+            callOptions,
+          );
+        },
+        (error) => !streamed && !options.signal?.aborted && isRetryableError(error),
       );
       const apiDuration = Date.now() - startTime;
 
       if (this.config.verboseLogging) {
-        console.error(`[API] Response received in ${apiDuration}ms`);
-        console.error(`[API] Tokens - Prompt: ${response.usage.prompt_tokens}, Completion: ${response.usage.completion_tokens}, Total: ${response.usage.total_tokens}`);
+        console.error(`[API] Response received in ${apiDuration}ms after ${attempts} attempt(s)`);
+        console.error(`[API] Tokens - Prompt: ${result.usage.prompt_tokens}, Completion: ${result.usage.completion_tokens}, Total: ${result.usage.total_tokens}`);
       }
 
-      return {
-        model,
-        response: response.choices[0].message.content,
-        usage: response.usage,
-      };
+      return { ...result, attempts };
     } catch (error) {
       if (this.config.verboseLogging) {
         console.error(`[API] Request failed: ${error instanceof Error ? error.message : String(error)}`);
@@ -79,63 +116,33 @@ export class ApiClient implements IApiClient {
   }
 
   /**
-   * Make the actual API call to OpenRouter
-   * This is the function wrapped by the circuit breaker
+   * Whether the model's circuit breaker is open, so calls would fail fast
    */
-  public async makeApiCall(
-    model: string,
-    messages: OpenRouterMessage[],
-  ): Promise<OpenRouterResponse> {
-    try {
-      if (this.config.verboseLogging) {
-        console.error(`[API] Making HTTP POST to ${this.baseUrl}`);
-      }
-
-      const response = await axios.post<OpenRouterResponse>(
-        this.baseUrl,
-        {
-          model,
-          messages,
-        },
-        {
-          headers: {
-            Authorization: `Bearer ${this.apiKey}`,
-            "X-Title": "AI Consultant MCP",
-            "Content-Type": "application/json",
-          },
-        },
-      );
-
-      if (this.config.verboseLogging) {
-        console.error(`[API] HTTP ${response.status} ${response.statusText}`);
-      }
+  public isCircuitOpen(model: string): boolean {
+    return this.circuitBreakers.isOpen(model);
+  }
 
-      return response.data;
-    } catch (error) {
-      if (this.config.verboseLogging) {
-        console.error(`[API] HTTP request failed`);
-      }
-      throw this.handleError(error);
-    }
+  /**
+   * Get the state of every circuit breaker
+   */
+  public getCircuitBreakerStatus(): CircuitBreakerStatus[] {
+    return this.circuitBreakers.getStatus();
   }
 
   /**
    * Handle API errors with proper error types
+   * Open-circuit rejections keep their type so callers can fall back, and
+   * rate-limited retries keep theirs so clients are told how long to wait.
    */
-  private handleError(error: unknown): ApiError {
-    if (axios.isAxiosError(error)) {
-      const axiosError = error as AxiosError<{ error?: { message?: string } }>;
-      const message =
-        axiosError.response?.data?.error?.message ||
-        axiosError.message ||
-        "Unknown API error";
-      const statusCode = axiosError.response?.status;
-
-      return new ApiError(
-        `OpenRouter API error: ${message}`,
-        statusCode,
-        axiosError,
-      );
+  private handleError(
+    error: unknown,
+  ): ApiError | CircuitBreakerError | RateLimitError {
+    if (
+      error instanceof ApiError ||
+      error instanceof CircuitBreakerError ||
+      error instanceof RateLimitError
+    ) {
+      return error;
     }
 
     if (error instanceof Error) {
@@ -145,4 +152,3 @@ export class ApiClient implements IApiClient {
     return new ApiError("Unknown API error occurred");
   }
 }
-
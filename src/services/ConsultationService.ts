@@ -3,18 +3,77 @@
  * Orchestrates the AI consultation workflow with caching, rate limiting, and history management
  */
 
+import { randomUUID } from "node:crypto";
 import type {
   IApiClient,
   IModelSelector,
-  ICache,
+  IResponseCache,
+  IFileAttachmentLoader,
   IHistoryManager,
   IRateLimiter,
+  IUsageTracker,
+  CacheKeyInput,
+  CacheLookupResult,
   ConsultArgs,
+  ConsultContext,
   ConsultResult,
+  CircuitBreakerStatus,
+  RateLimitStatus,
+  ConversationFormat,
+  ConversationImportOptions,
+  ConversationMessage,
+  GenerationParameters,
+  SchemaValidationResult,
+  SkippedModel,
+  StructuredOutputMode,
+  ConversationRecord,
+  ConversationSummary,
+  DebateRound,
+  FileAttachments,
+  ModelResponse,
   OpenRouterMessage,
+  ApiCallOptions,
+  PersonaRegistry,
+  TokenUsage,
+  UsageSummary,
 } from "../types/index.js";
-import { generateCacheKey } from "../infrastructure/Cache.js";
+import {
+  ApiError,
+  CircuitBreakerError,
+  FileAccessError,
+  ProviderType,
+} from "../types/index.js";
+import { mapWithConcurrency, withTimeout } from "../utils/Concurrency.js";
+import {
+  buildDebatePrompt,
+  buildSchemaInstructions,
+  buildSchemaRepairPrompt,
+  buildSynthesisPrompt,
+} from "./PromptTemplates.js";
+import {
+  estimateMessagesTokens,
+  estimateTokens,
+  fitToTokenBudget,
+} from "../utils/TokenBudget.js";
+import {
+  parseGenerationParameters,
+  resolveGenerationParameters,
+} from "../utils/GenerationParameters.js";
+import {
+  compileResponseSchema,
+  type CompiledResponseSchema,
+} from "../utils/JsonSchema.js";
 import { Config } from "../config/Config.js";
+import { DEFAULT_PERSONAS } from "../config/DefaultPersonas.js";
+import { PromptLibrary } from "./PromptLibrary.js";
+import { summarizeConversation } from "./ConversationFormatter.js";
+import { exportConversation, importConversation } from "./ConversationTransfer.js";
+
+// Assumed context window for models that don't declare one
+const DEFAULT_CONTEXT_LENGTH = 128000;
+
+// Rate limit key for callers that do not identify a client
+const DEFAULT_CLIENT_ID = "default";
 
 export class ConsultationService {
   private readonly config: Config;
@@ -22,17 +81,25 @@ export class ConsultationService {
   constructor(
     private readonly apiClient: IApiClient,
     private readonly modelSelector: IModelSelector,
-    private readonly cache: ICache<ConsultResult>,
+    private readonly cache: IResponseCache,
     private readonly historyManager: IHistoryManager,
     private readonly rateLimiter: IRateLimiter,
+    private readonly usageTracker: IUsageTracker,
+    private readonly personas: PersonaRegistry = DEFAULT_PERSONAS,
+    private readonly fileLoader?: IFileAttachmentLoader,
+    private readonly promptLibrary: PromptLibrary = new PromptLibrary(),
   ) {
     this.config = Config.getInstance();
   }
 
   /**
    * Consult with AI model (single or multiple models)
+   * When the context carries a progress handler, partial output is reported as it streams
    */
-  public async consult(args: ConsultArgs): Promise<ConsultResult> {
+  public async consult(
+    args: ConsultArgs,
+    context: ConsultContext = {},
+  ): Promise<ConsultResult> {
     const {
       prompt,
       model,
@@ -42,19 +109,55 @@ export class ConsultationService {
       clear_history = false,
     } = args;
 
+    // Reject up front once a spend cap has been reached
+    this.usageTracker.checkBudget();
+
+    // Templates expand into the prompt and supply default models and persona
+    if (args.template) {
+      return this.consult(this.applyTemplate(args), context);
+    }
+
+    // Attached files are read once and prepended to the prompt for every model
+    if (args.files && args.files.length > 0) {
+      const attachments = this.attachFiles(args.files);
+      const result = await this.consult(
+        {
+          ...args,
+          prompt: attachments.context
+            ? `${attachments.context}\n\n${prompt}`
+            : prompt,
+          files: undefined,
+        },
+        context,
+      );
+      return { ...result, attached_files: attachments.report };
+    }
+
     // If multiple models specified, use multi-model consultation
     if (models && models.length > 0) {
-      return this.consultMultipleModels(args);
+      return this.consultMultipleModels(args, context);
     }
 
-    // Check rate limit
-    const rateLimitId = conversation_id || "global";
+    const systemPrompt = this.resolveSystemPrompt(args);
+
+    // Select model
+    const selectedModel = this.selectModel(model, task_description, prompt);
     if (this.config.verboseLogging) {
-      console.error(`[Service] Checking rate limit for: ${rateLimitId}`);
+      console.error(`[Service] Selected model: ${selectedModel}`);
     }
-    this.rateLimiter.checkLimit(rateLimitId);
 
-    // Clear history if requested
+    // Request parameters override the model's defaults
+    const requestedParameters = parseGenerationParameters(args);
+    const parameters = resolveGenerationParameters(
+      requestedParameters,
+      this.modelSelector.resolveModel(selectedModel),
+      selectedModel,
+    );
+    const responseSchema = args.response_schema
+      ? compileResponseSchema(args.response_schema)
+      : undefined;
+
+    // Clear history only once the request is known to be valid
     if (clear_history && conversation_id) {
       if (this.config.verboseLogging) {
         console.error(`[Service] Clearing conversation history for: ${conversation_id}`);
@@ -62,27 +165,29 @@ export class ConsultationService {
       this.historyManager.clearHistory(conversation_id);
     }
 
-    // Select model
-    const selectedModel = this.selectModel(model, task_description, prompt);
-    if (this.config.verboseLogging) {
-      console.error(`[Service] Selected model: ${selectedModel}`);
-    }
-
     // Check cache (only for non-conversation queries)
     if (!conversation_id) {
-      const cachedResult = this.checkCache(prompt, selectedModel);
-      if (cachedResult) {
+      const cached = this.checkCache({
+        prompt,
+        model: selectedModel,
+        systemPrompt,
+        parameters,
+        responseSchema: args.response_schema,
+      });
+      if (cached) {
         if (this.config.verboseLogging) {
           console.error("[Service] Returning cached result");
         }
         return {
-          ...cachedResult,
+          ...cached.result,
           model: `${selectedModel} (cached)`,
+          cost_usd: 0,
+          cache_match: cached.match,
+          attempts: undefined,
         };
       }
     }
 
-    // Get conversation history
     const history = conversation_id
       ? this.historyManager.getHistory(conversation_id)
       : [];
@@ -91,25 +196,39 @@ export class ConsultationService {
       console.error(`[Service] Loaded ${history.length} messages from conversation history`);
     }
 
-    // Make API call
+    // Make API call, falling back to other models on retryable failures
+    const chain =
+      args.fallback === false ? [selectedModel] : this.fallbackChain(selectedModel);
     if (this.config.verboseLogging) {
-      console.error(`[Service] Making API call to OpenRouter with model: ${selectedModel}`);
+      console.error(`[Service] Making API call with model: ${selectedModel}`);
+      if (chain.length > 1) {
+        console.error(`[Service] Fallback chain: ${chain.slice(1).join(", ")}`);
+      }
     }
-    const result = await this.apiClient.consultAI(
+    const answer = await this.callWithFallback(
+      chain,
       prompt,
-      selectedModel,
       history,
+      context,
+      conversation_id,
+      systemPrompt,
+      requestedParameters,
+      responseSchema,
     );
+    const { result } = answer;
 
     // Update conversation history if conversation_id provided
     if (conversation_id) {
-      const userMessage: OpenRouterMessage = {
+      const userMessage: ConversationMessage = {
         role: "user",
         content: prompt,
       };
-      const assistantMessage: OpenRouterMessage = {
+      const assistantMessage: ConversationMessage = {
         role: "assistant",
         content: result.response,
+        model: answer.model,
+        usage: result.usage,
+        cost_usd: result.cost_usd,
       };
       if (this.config.verboseLogging) {
         console.error(`[Service] Updating conversation history for: ${conversation_id}`);
@@ -121,24 +240,46 @@ export class ConsultationService {
       );
     }
 
-    // Cache result (only for non-conversation queries)
-    if (!conversation_id) {
+    // Cache result (only for non-conversation queries with a usable answer)
+    if (!conversation_id && result.structured_output?.valid !== false) {
       if (this.config.verboseLogging) {
         console.error("[Service] Caching result");
       }
-      this.cacheResult(prompt, selectedModel, result);
+      this.cacheResult(
+        {
+          prompt,
+          model: answer.model,
+          systemPrompt,
+          parameters: answer.parameters,
+          responseSchema: args.response_schema,
+        },
+        result,
+      );
     }
 
-    return result;
+    return answer.skipped.length > 0
+      ? {
+          ...result,
+          fallback: { requested_model: selectedModel, skipped: answer.skipped },
+        }
+      : result;
   }
 
   /**
-   * Consult with multiple AI models sequentially
+   * Consult with multiple AI models
+   * Runs in parallel (bounded by MULTI_MODEL_CONCURRENCY) unless mode is "sequential"
    */
-  private async consultMultipleModels(args: ConsultArgs): Promise<ConsultResult> {
+  private async consultMultipleModels(
+    args: ConsultArgs,
+    context: ConsultContext,
+  ): Promise<ConsultResult> {
     const {
       prompt,
       models,
+      mode = "parallel",
+      model_timeout_ms = this.config.modelTimeoutMs,
+      synthesize_with,
+      debate_rounds = 1,
       conversation_id,
       clear_history = false,
     } = args;
@@ -147,16 +288,27 @@ export class ConsultationService {
       throw new Error("No models specified for multi-model consultation");
     }
 
+    if (debate_rounds > 1 && models.length < 2) {
+      throw new Error("Debate mode requires at least two models");
+    }
+
+    // Each model applies its own defaults and capability checks
+    const parameters = parseGenerationParameters(args);
+    const responseSchema = args.response_schema
+      ? compileResponseSchema(args.response_schema)
+      : undefined;
+
     if (this.config.verboseLogging) {
-      console.error(`[Service] Starting multi-model consultation with ${models.length} models`);
+      console.error(`[Service] Starting ${mode} multi-model consultation with ${models.length} models`);
+      if (debate_rounds > 1) {
+        console.error(`[Service] Debate rounds: ${debate_rounds}`);
+      }
       console.error(`[Service] Models: ${models.join(", ")}`);
     }
 
-    // Check rate limit
-    const rateLimitId = conversation_id || "global";
-    this.rateLimiter.checkLimit(rateLimitId);
+    const systemPrompt = this.resolveSystemPrompt(args);
 
-    // Clear history if requested
+    // Clear history only once the request is known to be valid
     if (clear_history && conversation_id) {
       if (this.config.verboseLogging) {
         console.error(`[Service] Clearing conversation history for: ${conversation_id}`);
@@ -164,101 +316,121 @@ export class ConsultationService {
       this.historyManager.clearHistory(conversation_id);
     }
 
-    const results: Array<{
-      model: string;
-      response: string;
-      usage: any;
-      cached: boolean;
-    }> = [];
+    // Each model call counts against the client's rate limits
+    const clientId = context.clientId ?? DEFAULT_CLIENT_ID;
 
-    let totalPromptTokens = 0;
-    let totalCompletionTokens = 0;
-    let totalTokens = 0;
+    // Every model sees the same history snapshot
+    const history = conversation_id
+      ? [...this.historyManager.getHistory(conversation_id)]
+      : [];
 
-    // Consult each model sequentially
-    for (const modelId of models) {
-      if (this.config.verboseLogging) {
-        console.error(`[Service] Consulting model: ${modelId}`);
-      }
+    const concurrency =
+      mode === "sequential" ? 1 : this.config.multiModelConcurrency;
+    const totalCalls = models.length * debate_rounds;
+    let completed = 0;
 
-      try {
-        // Validate and get full model ID
-        const modelConfig = this.modelSelector.getModelById(modelId);
-        const selectedModel = modelConfig ? modelConfig.id : modelId;
-
-        // Get conversation history
-        const history = conversation_id
-          ? this.historyManager.getHistory(conversation_id)
-          : [];
-
-        // Check cache (only for non-conversation queries)
-        let result;
-        let isCached = false;
-        if (!conversation_id) {
-          const cachedResult = this.checkCache(prompt, selectedModel);
-          if (cachedResult) {
-            result = cachedResult;
-            isCached = true;
-            if (this.config.verboseLogging) {
-              console.error(`[Service] Using cached result for model: ${modelId}`);
-            }
-          }
-        }
+    // Round 1 collects independent answers; later rounds let each model
+    // revise its answer after reading the others' previous answers
+    const rounds: DebateRound[] = [];
+    for (let round = 1; round <= debate_rounds; round++) {
+      const previous = rounds[rounds.length - 1]?.responses;
 
-        // Make API call if not cached
-        if (!result) {
-          result = await this.apiClient.consultAI(
-            prompt,
-            selectedModel,
+      if (this.config.verboseLogging && debate_rounds > 1) {
+        console.error(`[Service] Starting debate round ${round}/${debate_rounds}`);
+      }
+
+      // Results keep the order of `models` regardless of completion order
+      const responses = await mapWithConcurrency(
+        models,
+        concurrency,
+        async (modelId, index) => {
+          const roundPrompt = previous
+            ? buildDebatePrompt(
+                prompt,
+                round,
+                previous[index],
+                previous.filter((_, i) => i !== index),
+              )
+            : prompt;
+          const result = await this.consultModel(
+            modelId,
+            roundPrompt,
             history,
+            conversation_id,
+            clientId,
+            model_timeout_ms,
+            systemPrompt,
+            parameters,
+            responseSchema,
           );
 
-          // Cache result (only for non-conversation queries)
-          if (!conversation_id) {
-            this.cacheResult(prompt, selectedModel, result);
-          }
-        }
-
-        // Collect result
-        results.push({
-          model: modelId,
-          response: result.response,
-          usage: result.usage,
-          cached: isCached,
-        });
+          completed++;
+          context.onProgress?.({
+            progress: completed,
+            total: totalCalls,
+            message:
+              debate_rounds > 1
+                ? `Round ${round}: received response from ${modelId}`
+                : `Received response from ${modelId}`,
+          });
 
-        // Aggregate token usage
-        totalPromptTokens += result.usage.prompt_tokens || 0;
-        totalCompletionTokens += result.usage.completion_tokens || 0;
-        totalTokens += result.usage.total_tokens || 0;
+          return result;
+        },
+      );
 
-        if (this.config.verboseLogging) {
-          console.error(`[Service] Completed consultation with ${modelId}`);
-        }
-      } catch (error) {
-        console.error(`[Service] Error consulting model ${modelId}:`, error);
-        // Continue with other models even if one fails
-        results.push({
-          model: modelId,
-          response: `Error: ${error instanceof Error ? error.message : String(error)}`,
-          usage: { prompt_tokens: 0, completion_tokens: 0, total_tokens: 0 },
-          cached: false,
-        });
-      }
+      rounds.push({ round, responses });
     }
 
-    // Combine responses
-    const combinedResponse = this.combineResponses(results);
+    // Final positions are the last round's answers
+    const results = rounds[rounds.length - 1].responses;
+
+    // Merge answers into a consensus answer if requested
+    const synthesis = synthesize_with
+      ? await this.synthesize(
+          synthesize_with,
+          prompt,
+          results,
+          conversation_id,
+          clientId,
+          model_timeout_ms,
+          parameters,
+          responseSchema,
+        )
+      : undefined;
+
+    // Aggregate token usage and cost across all rounds and the synthesis call
+    const allResponses = [
+      ...rounds.flatMap((r) => r.responses),
+      ...(synthesis ? [synthesis] : []),
+    ];
+    const totalUsage = this.sumUsage(allResponses.map((r) => r.tokens_used));
+    const totalCost = allResponses.reduce((sum, r) => sum + r.cost_usd, 0);
+
+    // Combine responses, preferring the synthesized answer
+    const combinedResponse =
+      synthesis && !synthesis.error
+        ? synthesis.response
+        : this.combineResponses(results, rounds.length);
 
     // Update conversation history if conversation_id provided
     if (conversation_id) {
-      const userMessage: OpenRouterMessage = {
+      const userMessage: ConversationMessage = {
         role: "user",
         content: prompt,
       };
-      const assistantMessage: OpenRouterMessage = {
+      const assistantMessage: ConversationMessage = {
         role: "assistant",
         content: combinedResponse,
+        models: Array.from(
+          new Set(
+            [
+              ...models,
+              ...(synthesis && !synthesis.error ? [synthesis.model] : []),
+            ].map((m) => this.modelSelector.getModelById(m)?.id ?? m),
+          ),
+        ),
+        usage: totalUsage,
+        cost_usd: totalCost,
       };
       this.historyManager.updateHistory(
         conversation_id,
@@ -271,37 +443,619 @@ export class ConsultationService {
     return {
       model: `Multi-model: ${models.join(", ")}`,
       response: combinedResponse,
-      usage: {
-        prompt_tokens: totalPromptTokens,
-        completion_tokens: totalCompletionTokens,
-        total_tokens: totalTokens,
+      usage: totalUsage,
+      cost_usd: totalCost,
+      ...(synthesis?.parsed !== undefined ? { parsed: synthesis.parsed } : {}),
+      responses: results,
+      synthesis,
+      ...(debate_rounds > 1 ? { rounds } : {}),
+    };
+  }
+
+  /**
+   * Ask a model to merge the successful answers into one consensus answer
+   * Returns undefined when there is nothing to synthesize
+   */
+  private async synthesize(
+    modelId: string,
+    prompt: string,
+    results: ModelResponse[],
+    conversationId: string | undefined,
+    clientId: string,
+    timeoutMs: number,
+    parameters: GenerationParameters,
+    responseSchema?: CompiledResponseSchema,
+  ): Promise<ModelResponse | undefined> {
+    const answers = results.filter((r) => !r.error);
+    if (answers.length === 0) {
+      if (this.config.verboseLogging) {
+        console.error("[Service] Skipping synthesis: no successful answers");
+      }
+      return undefined;
+    }
+
+    if (this.config.verboseLogging) {
+      console.error(`[Service] Synthesizing ${answers.length} answers with: ${modelId}`);
+    }
+
+    return this.consultModel(
+      modelId,
+      buildSynthesisPrompt(prompt, answers),
+      [],
+      conversationId,
+      clientId,
+      timeoutMs,
+      undefined,
+      parameters,
+      responseSchema,
+    );
+  }
+
+  /**
+   * Consult a single model as part of a multi-model consultation
+   * Never throws: failures, timeouts and parameters the model rejects are
+   * reported in the returned entry.
+   * Results are cached only outside conversations.
+   */
+  private async consultModel(
+    modelId: string,
+    prompt: string,
+    history: OpenRouterMessage[],
+    conversationId: string | undefined,
+    clientId: string,
+    timeoutMs: number,
+    systemPrompt?: string,
+    requestedParameters: GenerationParameters = {},
+    responseSchema?: CompiledResponseSchema,
+  ): Promise<ModelResponse> {
+    const useCache = !conversationId;
+    if (this.config.verboseLogging) {
+      console.error(`[Service] Consulting model: ${modelId}`);
+    }
+
+    const startTime = Date.now();
+
+    try {
+      // Validate and get full model ID
+      const modelConfig = this.modelSelector.getModelById(modelId);
+      const selectedModel = modelConfig ? modelConfig.id : modelId;
+      const parameters = resolveGenerationParameters(
+        requestedParameters,
+        modelConfig,
+        modelId,
+      );
+
+      // Check cache (only for non-conversation queries)
+      if (useCache) {
+        const cached = this.checkCache({
+          prompt,
+          model: selectedModel,
+          systemPrompt,
+          parameters,
+          responseSchema: responseSchema?.schema,
+        });
+        if (cached) {
+          if (this.config.verboseLogging) {
+            console.error(`[Service] Using cached result for model: ${modelId}`);
+          }
+          return {
+            model: modelId,
+            response: cached.result.response,
+            tokens_used: cached.result.usage,
+            cached: true,
+            latency_ms: Date.now() - startTime,
+            cost_usd: 0,
+            cache_match: cached.match,
+            ...this.structuredFields(cached.result),
+          };
+        }
+      }
+
+      // Models whose circuit is open are skipped rather than called
+      if (this.apiClient.isCircuitOpen(selectedModel)) {
+        throw new CircuitBreakerError(
+          `Skipped: the circuit breaker for ${selectedModel} is open`,
+        );
+      }
+
+      this.usageTracker.checkBudget();
+      const result = await withTimeout(
+        (signal) =>
+          this.callModel(
+            prompt,
+            selectedModel,
+            this.fitHistory(history, selectedModel, prompt, systemPrompt),
+            { systemPrompt, parameters, signal },
+            conversationId,
+            clientId,
+            responseSchema,
+          ),
+        timeoutMs,
+        `${modelId} did not respond within ${timeoutMs}ms`,
+      );
+
+      // Cache result (only for non-conversation queries with a usable answer)
+      if (useCache && result.structured_output?.valid !== false) {
+        this.cacheResult(
+          {
+            prompt,
+            model: selectedModel,
+            systemPrompt,
+            parameters,
+            responseSchema: responseSchema?.schema,
+          },
+          result,
+        );
+      }
+
+      if (this.config.verboseLogging) {
+        console.error(`[Service] Completed consultation with ${modelId}`);
+      }
+
+      return {
+        model: modelId,
+        response: result.response,
+        tokens_used: result.usage,
+        cached: false,
+        latency_ms: Date.now() - startTime,
+        cost_usd: result.cost_usd ?? 0,
+        ...this.structuredFields(result),
+        ...(result.attempts !== undefined ? { attempts: result.attempts } : {}),
+      };
+    } catch (error) {
+      console.error(`[Service] Error consulting model ${modelId}:`, error);
+      // Continue with other models even if one fails
+      const message = error instanceof Error ? error.message : String(error);
+      return {
+        model: modelId,
+        response: `Error: ${message}`,
+        tokens_used: { prompt_tokens: 0, completion_tokens: 0, total_tokens: 0 },
+        cached: false,
+        latency_ms: Date.now() - startTime,
+        cost_usd: 0,
+        error: message,
+      };
+    }
+  }
+
+  /**
+   * Call the first model of a fallback chain, moving down the chain when a
+   * call fails with a retryable API error or an open circuit
+   * A call that already streamed output to the client is not fallen back from.
+   * Each fallback applies its own parameter defaults and context window;
+   * fallbacks that reject the requested parameters are skipped.
+   */
+  private async callWithFallback(
+    chain: string[],
+    prompt: string,
+    history: OpenRouterMessage[],
+    context: ConsultContext,
+    conversationId: string | undefined,
+    systemPrompt: string | undefined,
+    requestedParameters: GenerationParameters,
+    responseSchema?: CompiledResponseSchema,
+  ): Promise<{
+    model: string;
+    parameters?: GenerationParameters;
+    result: ConsultResult;
+    skipped: SkippedModel[];
+  }> {
+    const skipped: SkippedModel[] = [];
+    let lastError: unknown;
+    // Falling back after partial output would mix two answers in the progress stream
+    let streamed = false;
+    // Schema-checked answers are not streamed, so a rejected answer never reaches
+    // the client; validation and repairs are reported as status instead
+    let step = 0;
+    const { onProgress } = context;
+    const onStatus =
+      responseSchema && onProgress
+        ? (message: string) => onProgress({ progress: ++step, message })
+        : undefined;
+
+    for (const [index, model] of chain.entries()) {
+      let parameters: GenerationParameters | undefined;
+      try {
+        parameters = resolveGenerationParameters(
+          requestedParameters,
+          this.modelSelector.resolveModel(model),
+          model,
+        );
+      } catch (error) {
+        if (index === 0) {
+          throw error;
+        }
+        skipped.push({ model, reason: error instanceof Error ? error.message : String(error) });
+        continue;
+      }
+
+      if (index > 0) {
+        this.usageTracker.checkBudget();
+      }
+
+      const { onChunk } = responseSchema
+        ? {}
+        : this.buildStreamingOptions(context, model);
+      try {
+        const result = await this.callModel(
+          prompt,
+          model,
+          this.fitHistory(history, model, prompt, systemPrompt),
+          {
+            ...(onChunk
+              ? {
+                  onChunk: (delta, accumulated) => {
+                    streamed = true;
+                    onChunk(delta, accumulated);
+                  },
+                }
+              : {}),
+            systemPrompt,
+            parameters,
+          },
+          conversationId,
+          context.clientId ?? DEFAULT_CLIENT_ID,
+          responseSchema,
+          onStatus,
+        );
+        return { model, parameters, result, skipped };
+      } catch (error) {
+        if (streamed || !this.canFallBack(error)) {
+          throw error;
+        }
+        lastError = error;
+        const reason = error instanceof Error ? error.message : String(error);
+        skipped.push({ model, reason });
+        console.error(`[Service] ${model} failed: ${reason}`);
+      }
+    }
+
+    if (chain.length === 1) {
+      throw lastError;
+    }
+    throw new ApiError(
+      `Every model in the fallback chain failed: ${skipped.map((s) => `${s.model}: ${s.reason}`).join("; ")}`,
+      lastError instanceof ApiError ? lastError.statusCode : undefined,
+      lastError instanceof Error ? lastError : undefined,
+    );
+  }
+
+  /**
+   * The model followed by its configured fallbacks, as full model IDs
+   * Fallbacks missing from the registry are left out.
+   */
+  private fallbackChain(model: string): string[] {
+    const fallbacks = (this.modelSelector.resolveModel(model)?.fallbacks ?? [])
+      .map((name) => this.modelSelector.getModelById(name)?.id)
+      .filter((id): id is string => id !== undefined && id !== model);
+    return [model, ...new Set(fallbacks)];
+  }
+
+  /**
+   * Whether a failed call should move on to the next fallback model
+   */
+  private canFallBack(error: unknown): boolean {
+    return (
+      error instanceof CircuitBreakerError ||
+      (error instanceof ApiError && error.retryable)
+    );
+  }
+
+  /**
+   * Call a model and record its cost
+   * With a response schema the answer is validated, and an invalid answer is
+   * sent back with its validation errors up to SCHEMA_REPAIR_ATTEMPTS times.
+   * Usage, cost and attempts cover every call made.
+   */
+  private async callModel(
+    prompt: string,
+    model: string,
+    history: OpenRouterMessage[],
+    options: ApiCallOptions,
+    conversationId: string | undefined,
+    clientId: string,
+    responseSchema?: CompiledResponseSchema,
+    onStatus?: (message: string) => void,
+  ): Promise<ConsultResult> {
+    if (!responseSchema) {
+      return this.callUpstream(prompt, model, history, options, conversationId, clientId);
+    }
+
+    // Models without native structured output are told the schema in the prompt
+    const mode: StructuredOutputMode = this.modelSelector.resolveModel(model)
+      ?.capabilities?.structuredOutput
+      ? "response_format"
+      : "prompt";
+    const callOptions: ApiCallOptions =
+      mode === "response_format"
+        ? { ...options, responseSchema: responseSchema.schema }
+        : options;
+
+    const results: ConsultResult[] = [];
+    let messages = history;
+    let request =
+      mode === "prompt" ? buildSchemaInstructions(prompt, responseSchema.schema) : prompt;
+    let check: SchemaValidationResult;
+
+    for (;;) {
+      if (results.length > 0) {
+        this.usageTracker.checkBudget();
+      }
+
+      const result = await this.callUpstream(
+        request,
+        model,
+        messages,
+        callOptions,
+        conversationId,
+        clientId,
+      );
+      results.push(result);
+
+      onStatus?.(`Validating ${model}'s answer against response_schema`);
+      check = responseSchema.validate(result.response);
+      if (check.valid || results.length > this.config.schemaRepairAttempts) {
+        break;
+      }
+
+      onStatus?.(
+        `Answer failed response_schema, asking ${model} for a repair (attempt ${results.length} of ${this.config.schemaRepairAttempts})`,
+      );
+
+      if (this.config.verboseLogging) {
+        console.error(`[Service] ${model} answer failed response_schema (${check.errors.length} errors), asking for a repair`);
+      }
+      messages = [
+        ...messages,
+        { role: "user", content: request },
+        { role: "assistant", content: result.response },
+      ];
+      request = buildSchemaRepairPrompt(check.errors);
+    }
+
+    return {
+      ...results[results.length - 1],
+      usage: this.sumUsage(results.map((r) => r.usage)),
+      cost_usd: results.reduce((sum, r) => sum + (r.cost_usd ?? 0), 0),
+      attempts: results.reduce((sum, r) => sum + (r.attempts ?? 1), 0),
+      ...(check.valid ? { parsed: check.value } : {}),
+      structured_output: {
+        valid: check.valid,
+        mode,
+        attempts: results.length,
+        ...(check.valid ? {} : { errors: check.errors }),
       },
     };
   }
 
+  /**
+   * Make one call to a model under the client's rate limits and record its cost
+   * The tokens are estimated from the messages up front and settled with the
+   * actual usage; a failed call keeps its estimate. Each retry is acquired
+   * like a new call.
+   */
+  private async callUpstream(
+    prompt: string,
+    model: string,
+    history: OpenRouterMessage[],
+    options: ApiCallOptions,
+    conversationId: string | undefined,
+    clientId: string,
+  ): Promise<ConsultResult> {
+    // A call whose time ran out must not start another upstream request
+    options.signal?.throwIfAborted();
+
+    const estimatedTokens =
+      estimateTokens(options.systemPrompt ?? "") +
+      estimateMessagesTokens(history) +
+      estimateTokens(prompt);
+    this.rateLimiter.acquire(clientId, estimatedTokens);
+
+    const result = await this.apiClient.consultAI(prompt, model, history, {
+      ...options,
+      onRetry: () => this.rateLimiter.acquire(clientId, estimatedTokens),
+    });
+    this.rateLimiter.settle(
+      clientId,
+      estimatedTokens,
+      result.usage.total_tokens ?? estimatedTokens,
+    );
+    result.cost_usd = this.usageTracker.record(model, result.usage, conversationId);
+    return result;
+  }
+
+  /**
+   * Structured output fields of a result, for per-model responses
+   */
+  private structuredFields(
+    result: ConsultResult,
+  ): Pick<ModelResponse, "parsed" | "structured_output"> {
+    return {
+      ...(result.parsed !== undefined ? { parsed: result.parsed } : {}),
+      ...(result.structured_output
+        ? { structured_output: result.structured_output }
+        : {}),
+    };
+  }
+
+  /**
+   * Fit conversation history into the model's context window
+   * Leaves room for the system prompt, the prompt and the completion
+   */
+  private fitHistory(
+    history: OpenRouterMessage[],
+    model: string,
+    prompt: string,
+    systemPrompt?: string,
+  ): OpenRouterMessage[] {
+    const contextLength =
+      this.modelSelector.resolveModel(model)?.contextLength ??
+      DEFAULT_CONTEXT_LENGTH;
+    const budget =
+      contextLength -
+      estimateTokens(prompt) -
+      estimateTokens(systemPrompt ?? "") -
+      this.config.completionTokenReserve;
+    const fitted = fitToTokenBudget(history, budget);
+
+    if (this.config.verboseLogging && fitted.length < history.length) {
+      console.error(
+        `[Service] Dropped ${history.length - fitted.length} oldest messages to fit ${model}'s ${contextLength}-token context`,
+      );
+    }
+
+    return fitted;
+  }
+
+  /**
+   * Sum token usage across several results
+   */
+  private sumUsage(usages: TokenUsage[]): TokenUsage {
+    return usages.reduce<Required<TokenUsage>>(
+      (total, usage) => ({
+        prompt_tokens: total.prompt_tokens + (usage.prompt_tokens || 0),
+        completion_tokens:
+          total.completion_tokens + (usage.completion_tokens || 0),
+        total_tokens: total.total_tokens + (usage.total_tokens || 0),
+      }),
+      { prompt_tokens: 0, completion_tokens: 0, total_tokens: 0 },
+    );
+  }
+
+  /**
+   * Build API call options that forward streamed output as progress
+   * Models that declare no streaming support are called without streaming
+   */
+  private buildStreamingOptions(
+    context: ConsultContext,
+    model: string,
+  ): ApiCallOptions {
+    const { onProgress } = context;
+    const capabilities = this.modelSelector.resolveModel(model)?.capabilities;
+    if (!onProgress || capabilities?.streaming === false) {
+      return {};
+    }
+
+    return {
+      onChunk: (delta, accumulated) =>
+        onProgress({ progress: accumulated.length, message: delta, delta: true }),
+    };
+  }
+
   /**
    * Combine responses from multiple models
    */
   private combineResponses(
-    results: Array<{
-      model: string;
-      response: string;
-      usage: any;
-      cached: boolean;
-    }>,
+    results: ModelResponse[],
+    roundCount: number = 1,
   ): string {
-    let combined = "# Multi-Model Consultation Results\n\n";
+    let combined =
+      roundCount > 1
+        ? `# Multi-Model Debate Results (final positions after ${roundCount} rounds)\n\n`
+        : "# Multi-Model Consultation Results\n\n";
 
     results.forEach((result, index) => {
       combined += `## Model ${index + 1}: ${result.model}${result.cached ? " (cached)" : ""}\n\n`;
       combined += `${result.response}\n\n`;
-      combined += `**Tokens used:** ${result.usage.total_tokens || 0}\n\n`;
+      combined += `**Tokens used:** ${result.tokens_used.total_tokens || 0} | **Cost:** $${result.cost_usd.toFixed(4)} | **Latency:** ${result.latency_ms}ms\n\n`;
       combined += "---\n\n";
     });
 
     return combined;
   }
 
+  /**
+   * Render the requested template into the consultation arguments
+   * Explicit model, models and persona arguments take precedence over the
+   * template's preferences; any prompt text is appended to the rendered template.
+   */
+  private applyTemplate(args: ConsultArgs): ConsultArgs {
+    const { template = "", template_args, prompt, model, models, persona } = args;
+    const rendered = this.promptLibrary.render(template, template_args);
+
+    // Preferred models missing from the registry are ignored
+    const preferred = (rendered.models ?? []).filter((m) =>
+      this.modelSelector.getModelById(m),
+    );
+    const usePreferred = !model && !(models && models.length > 0);
+
+    if (this.config.verboseLogging) {
+      console.error(`[Service] Applying prompt template: ${template}`);
+      if (usePreferred && preferred.length > 0) {
+        console.error(`[Service] Template models: ${preferred.join(", ")}`);
+      }
+    }
+
+    return {
+      ...args,
+      template: undefined,
+      template_args: undefined,
+      prompt: prompt?.trim() ? `${rendered.prompt}\n\n${prompt}` : rendered.prompt,
+      ...(usePreferred && preferred.length === 1 ? { model: preferred[0] } : {}),
+      ...(usePreferred && preferred.length > 1 ? { models: preferred } : {}),
+      persona: persona ?? rendered.persona,
+    };
+  }
+
+  /**
+   * Read the requested files through the attachment loader
+   */
+  private attachFiles(files: string[]): FileAttachments {
+    if (!this.fileLoader) {
+      throw new FileAccessError(
+        "File attachments are disabled: set FILE_ROOTS to the directories files may be read from",
+        files[0],
+      );
+    }
+
+    const attachments = this.fileLoader.load(files);
+
+    if (this.config.verboseLogging) {
+      const { report } = attachments;
+      console.error(`[Service] Attached ${report.files.length} files (${report.total_bytes} bytes, ~${report.estimated_tokens} tokens)`);
+      for (const skipped of report.skipped) {
+        console.error(`[Service] Skipped ${skipped.path}: ${skipped.reason}`);
+      }
+    }
+
+    return attachments;
+  }
+
+  /**
+   * Resolve the system prompt from the persona and system_prompt arguments
+   * Within a conversation the resolved prompt is remembered for the thread,
+   * and later turns that pass neither argument reuse it.
+   */
+  private resolveSystemPrompt(args: ConsultArgs): string | undefined {
+    const { persona, system_prompt, conversation_id } = args;
+
+    if (persona !== undefined && !Object.hasOwn(this.personas, persona)) {
+      throw new Error(
+        `Unknown persona: ${persona}. Available personas: ${Object.keys(this.personas).join(", ")}`,
+      );
+    }
+
+    const parts = [
+      persona !== undefined ? this.personas[persona].systemPrompt : undefined,
+      system_prompt?.trim() || undefined,
+    ].filter((part): part is string => part !== undefined);
+    const systemPrompt = parts.length > 0 ? parts.join("\n\n") : undefined;
+
+    if (!conversation_id) {
+      return systemPrompt;
+    }
+
+    if (systemPrompt === undefined) {
+      return this.historyManager.getSystemPrompt(conversation_id);
+    }
+
+    if (this.config.verboseLogging) {
+      console.error(`[Service] Setting system prompt for: ${conversation_id}`);
+    }
+    this.historyManager.setSystemPrompt(conversation_id, systemPrompt);
+    return systemPrompt;
+  }
+
   /**
    * Select appropriate model
    */
@@ -330,17 +1084,18 @@ export class ConsultationService {
 
   /**
    * Check cache for existing result
+   * Near-duplicate hits carry the matched prompt and its similarity
    */
-  private checkCache(
-    prompt: string,
-    model: string,
-  ): ConsultResult | undefined {
-    const cacheKey = generateCacheKey(prompt, model);
-    const cached = this.cache.get(cacheKey);
+  private checkCache(keyInput: CacheKeyInput): CacheLookupResult | undefined {
+    const cached = this.cache.lookup(keyInput);
 
     if (cached) {
       if (this.config.verboseLogging) {
-        console.error("[Service] Cache hit for query");
+        console.error(
+          cached.match
+            ? `[Service] Near-duplicate cache hit (similarity ${cached.match.similarity})`
+            : "[Service] Cache hit for query",
+        );
       } else {
         console.error("Cache hit for query");
       }
@@ -354,13 +1109,15 @@ export class ConsultationService {
   /**
    * Cache consultation result
    */
-  private cacheResult(
-    prompt: string,
-    model: string,
-    result: ConsultResult,
-  ): void {
-    const cacheKey = generateCacheKey(prompt, model);
-    this.cache.set(cacheKey, result);
+  private cacheResult(keyInput: CacheKeyInput, result: ConsultResult): void {
+    this.cache.store(keyInput, result);
+  }
+
+  /**
+   * Get spend and token totals for today, this month and optionally a conversation
+   */
+  public getUsage(conversationId?: string): UsageSummary {
+    return this.usageTracker.getSummary(conversationId);
   }
 
   /**
@@ -371,9 +1128,139 @@ export class ConsultationService {
     return Object.entries(models).map(([key, model]) => ({
       name: key,
       id: model.id,
+      aliases: model.aliases ?? [],
       description: model.description,
       bestFor: model.bestFor,
+      provider: model.provider ?? ProviderType.OPENROUTER,
+      contextLength: model.contextLength,
+      pricing: model.pricing,
+      capabilities: model.capabilities,
     }));
   }
+
+  /**
+   * Get the requests and tokens a client may still use before being rate limited
+   */
+  public getRateLimitStatus(clientId: string = DEFAULT_CLIENT_ID): RateLimitStatus {
+    return this.rateLimiter.getRemaining(clientId);
+  }
+
+  /**
+   * Get the state of every circuit breaker
+   */
+  public getCircuitBreakerStatus(): CircuitBreakerStatus[] {
+    return this.apiClient.getCircuitBreakerStatus();
+  }
+
+  /**
+   * List stored conversations, most recently active first
+   */
+  public listConversations(): ConversationSummary[] {
+    return this.historyManager
+      .getAllConversationIds()
+      .map((id) => this.historyManager.getConversation(id))
+      .filter((record) => record !== undefined)
+      .sort((a, b) => b.updatedAt - a.updatedAt)
+      .map(summarizeConversation);
+  }
+
+  /**
+   * Get a stored conversation with its summary
+   */
+  public getConversation(
+    conversationId: string,
+  ): { summary: ConversationSummary; record: ConversationRecord } {
+    const record = this.historyManager.getConversation(conversationId);
+    if (!record) {
+      throw new Error(`Conversation not found: ${conversationId}`);
+    }
+    return { summary: summarizeConversation(record), record };
+  }
+
+  /**
+   * Delete one conversation and its usage totals
+   * Returns false when it did not exist
+   */
+  public deleteConversation(conversationId: string): boolean {
+    const existed = this.historyManager.getConversation(conversationId) !== undefined;
+    this.historyManager.clearHistory(conversationId);
+    this.usageTracker.forgetConversations([conversationId]);
+    return existed;
+  }
+
+  /**
+   * Delete every conversation and its usage totals, returning how many there were
+   */
+  public deleteAllConversations(): number {
+    const count = this.historyManager.getAllConversationIds().length;
+    this.historyManager.clearAll();
+    this.usageTracker.forgetConversations();
+    return count;
+  }
+
+  /**
+   * Fork a conversation after its first `turns` turns into a new conversation
+   * A new ID is generated when none is given.
+   */
+  public forkConversation(
+    conversationId: string,
+    turns: number,
+    newConversationId?: string,
+  ): ConversationSummary {
+    const targetId =
+      newConversationId || `${conversationId}-fork-${randomUUID().slice(0, 8)}`;
+
+    if (this.config.verboseLogging) {
+      console.error(`[Service] Forking ${conversationId} after ${turns} turns into ${targetId}`);
+    }
+
+    return summarizeConversation(
+      this.historyManager.forkConversation(conversationId, targetId, turns),
+    );
+  }
+
+  /**
+   * Export a stored conversation as markdown, JSON or JSONL
+   */
+  public exportConversation(
+    conversationId: string,
+    format: ConversationFormat,
+  ): string {
+    return exportConversation(this.historyManager, conversationId, format);
+  }
+
+  /**
+   * Seed a conversation from a JSON or JSONL export
+   */
+  public importConversation(
+    content: string,
+    options: ConversationImportOptions,
+  ): ConversationSummary {
+    const record = importConversation(this.historyManager, content, options);
+
+    if (this.config.verboseLogging) {
+      console.error(`[Service] Imported ${record.messages.length} messages into ${record.id}`);
+    }
+
+    return summarizeConversation(record);
+  }
+
+  /**
+   * List all available personas
+   */
+  public listPersonas() {
+    return Object.entries(this.personas).map(([name, persona]) => ({
+      name,
+      description: persona.description,
+      systemPrompt: persona.systemPrompt,
+    }));
+  }
+
+  /**
+   * Get every name and alias accepted as a model argument
+   */
+  public listModelNames(): string[] {
+    return this.modelSelector.getModelNames();
+  }
 }
 
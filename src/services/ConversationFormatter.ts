@@ -0,0 +1,159 @@
+/**
+ * Conversation formatter
+ * Renders stored conversation threads as markdown, JSON or JSONL and summarizes them
+ */
+
+import type {
+  ConversationFormat,
+  ConversationMessage,
+  ConversationRecord,
+  ConversationSummary,
+} from "../types/index.js";
+
+// Marks JSON exports so they can be recognized on import
+export const CONVERSATION_EXPORT_FORMAT = "ai-consultant-conversation";
+export const CONVERSATION_EXPORT_VERSION = 1;
+
+const ROLE_HEADINGS = {
+  system: "System",
+  user: "User",
+  assistant: "Assistant",
+} as const;
+
+/**
+ * Render a conversation in the requested format
+ */
+export function formatConversation(
+  record: ConversationRecord,
+  format: ConversationFormat,
+): string {
+  switch (format) {
+    case "json":
+      return formatConversationJson(record);
+    case "jsonl":
+      return formatConversationJsonl(record);
+    default:
+      return formatConversationMarkdown(record);
+  }
+}
+
+/**
+ * Render a conversation as a markdown transcript
+ * Each message is attributed to its model, with timestamp, tokens and cost when known
+ */
+export function formatConversationMarkdown(record: ConversationRecord): string {
+  const sections = [
+    `# Conversation: ${record.id}`,
+    `_Started ${new Date(record.createdAt).toISOString()} · Last updated ${new Date(record.updatedAt).toISOString()} · ${record.messages.length} messages_`,
+  ];
+
+  if (record.systemPrompt) {
+    sections.push(`## ${ROLE_HEADINGS.system}\n\n${record.systemPrompt}`);
+  }
+
+  for (const message of record.messages) {
+    const models = messageModels(message);
+    const attribution = models.length > 0 ? ` (${models.join(", ")})` : "";
+    const details = [
+      message.timestamp ? new Date(message.timestamp).toISOString() : undefined,
+      message.usage?.total_tokens ? `${message.usage.total_tokens} tokens` : undefined,
+      message.cost_usd ? `$${message.cost_usd.toFixed(4)}` : undefined,
+    ].filter((detail) => detail !== undefined);
+
+    sections.push(
+      [
+        `## ${ROLE_HEADINGS[message.role]}${attribution}`,
+        ...(details.length > 0 ? [`_${details.join(" · ")}_`] : []),
+        message.content,
+      ].join("\n\n"),
+    );
+  }
+
+  return `${sections.join("\n\n")}\n`;
+}
+
+/**
+ * Render a conversation as JSON with ISO timestamps and its summary
+ */
+export function formatConversationJson(record: ConversationRecord): string {
+  return JSON.stringify(
+    {
+      format: CONVERSATION_EXPORT_FORMAT,
+      version: CONVERSATION_EXPORT_VERSION,
+      id: record.id,
+      created_at: new Date(record.createdAt).toISOString(),
+      updated_at: new Date(record.updatedAt).toISOString(),
+      system_prompt: record.systemPrompt ?? null,
+      summary: summarizeConversation(record),
+      messages: record.messages.map(exportMessage),
+    },
+    null,
+    2,
+  );
+}
+
+/**
+ * Render a conversation as OpenAI-format JSONL: one chat message per line
+ * The system prompt comes first; metadata fields follow role and content.
+ */
+export function formatConversationJsonl(record: ConversationRecord): string {
+  const lines = [
+    ...(record.systemPrompt
+      ? [{ role: "system", content: record.systemPrompt }]
+      : []),
+    ...record.messages.map(exportMessage),
+  ];
+  return `${lines.map((line) => JSON.stringify(line)).join("\n")}\n`;
+}
+
+/**
+ * Summarize a conversation: turns, models, activity and token totals
+ */
+export function summarizeConversation(
+  record: ConversationRecord,
+): ConversationSummary {
+  const assistantMessages = record.messages.filter((m) => m.role === "assistant");
+
+  return {
+    conversation_id: record.id,
+    turns: record.messages.filter((m) => m.role === "user").length,
+    messages: record.messages.length,
+    models_used: Array.from(new Set(assistantMessages.flatMap(messageModels))),
+    created_at: new Date(record.createdAt).toISOString(),
+    last_activity: new Date(record.updatedAt).toISOString(),
+    tokens_used: {
+      prompt_tokens: sumField(assistantMessages, (m) => m.usage?.prompt_tokens),
+      completion_tokens: sumField(assistantMessages, (m) => m.usage?.completion_tokens),
+      total_tokens: sumField(assistantMessages, (m) => m.usage?.total_tokens),
+    },
+    cost_usd: sumField(assistantMessages, (m) => m.cost_usd),
+    system_prompt: Boolean(record.systemPrompt),
+  };
+}
+
+/**
+ * Message as exported, with an ISO timestamp
+ */
+function exportMessage(message: ConversationMessage): Record<string, unknown> {
+  const { role, content, timestamp, ...metadata } = message;
+  return {
+    role,
+    content,
+    ...(timestamp ? { timestamp: new Date(timestamp).toISOString() } : {}),
+    ...metadata,
+  };
+}
+
+/**
+ * Models credited with a message
+ */
+function messageModels(message: ConversationMessage): string[] {
+  return message.models ?? (message.model ? [message.model] : []);
+}
+
+function sumField(
+  messages: ConversationMessage[],
+  field: (message: ConversationMessage) => number | undefined,
+): number {
+  return messages.reduce((sum, message) => sum + (field(message) || 0), 0);
+}
@@ -0,0 +1,98 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import { HistoryManager } from "../infrastructure/HistoryManager.js";
+import { exportConversation, importConversation } from "./ConversationTransfer.js";
+
+function seeded(): HistoryManager {
+  const manager = new HistoryManager();
+  manager.setSystemPrompt("source", "Be brief");
+  manager.updateHistory(
+    "source",
+    { role: "user", content: "Question?" },
+    { role: "assistant", content: "Answer.", model: "gpt-5" },
+  );
+  return manager;
+}
+
+describe("exportConversation", () => {
+  test("rejects unknown conversations", () => {
+    assert.throws(
+      () => exportConversation(new HistoryManager(), "missing", "json"),
+      /Conversation not found/,
+    );
+  });
+});
+
+describe("importConversation", () => {
+  test("round-trips a JSON export with its ID, system prompt and metadata", () => {
+    const source = seeded();
+    const exported = exportConversation(source, "source", "json");
+    const target = new HistoryManager();
+
+    const record = importConversation(target, exported);
+
+    assert.equal(record.id, "source");
+    assert.equal(record.systemPrompt, "Be brief");
+    assert.deepEqual(record.messages, source.getConversation("source")?.messages);
+  });
+
+  test("imports JSONL under the given ID, moving system messages to the prompt", () => {
+    const exported = exportConversation(seeded(), "source", "jsonl");
+    const target = new HistoryManager();
+
+    assert.throws(() => importConversation(target, exported), /conversation_id is required/);
+
+    const record = importConversation(target, exported, { conversationId: "copy" });
+
+    assert.equal(record.systemPrompt, "Be brief");
+    assert.deepEqual(target.getHistory("copy"), [
+      { role: "user", content: "Question?" },
+      { role: "assistant", content: "Answer." },
+    ]);
+  });
+
+  test("refuses to replace a conversation unless overwrite is set", () => {
+    const manager = seeded();
+    const content = JSON.stringify({
+      id: "source",
+      messages: [{ role: "user", content: "New question" }],
+    });
+
+    assert.throws(() => importConversation(manager, content), /already exists/);
+
+    importConversation(manager, content, { overwrite: true });
+
+    assert.deepEqual(manager.getHistory("source"), [{ role: "user", content: "New question" }]);
+  });
+
+  test("applies the history caps to imported conversations", () => {
+    const manager = new HistoryManager(200000, undefined, 2);
+    const content = [
+      { role: "user", content: "q1" },
+      { role: "assistant", content: "a1" },
+      { role: "user", content: "q2" },
+      { role: "assistant", content: "a2" },
+    ]
+      .map((message) => JSON.stringify(message))
+      .join("\n");
+
+    const record = importConversation(manager, content, { conversationId: "capped" });
+
+    assert.deepEqual(record.messages.map((m) => m.content), ["q2", "a2"]);
+  });
+
+  test("reports invalid messages with their position", () => {
+    const manager = new HistoryManager();
+
+    assert.throws(
+      () => importConversation(manager, '{"role":"user","content":"ok"}\n{"role":"tool"}', {
+        conversationId: "x",
+      }),
+      /Invalid message at line 2: role must be system, user or assistant/,
+    );
+    assert.throws(
+      () => importConversation(manager, '{"id":"x","messages":[{"role":"system","content":"s"}]}'),
+      /no user or assistant messages/,
+    );
+  });
+});
@@ -0,0 +1,234 @@
+/**
+ * Conversation transfer
+ * Exports stored conversations and seeds conversations from exported files
+ */
+
+import type {
+  ConversationFormat,
+  ConversationImportOptions,
+  ConversationMessage,
+  ConversationRecord,
+  IHistoryManager,
+} from "../types/index.js";
+import {
+  CONVERSATION_EXPORT_FORMAT,
+  formatConversation,
+} from "./ConversationFormatter.js";
+
+const MESSAGE_ROLES = new Set(["system", "user", "assistant"]);
+
+/**
+ * Export a stored conversation as markdown, JSON or OpenAI-format JSONL
+ */
+export function exportConversation(
+  historyManager: IHistoryManager,
+  conversationId: string,
+  format: ConversationFormat,
+): string {
+  const record = historyManager.getConversation(conversationId);
+  if (!record) {
+    throw new Error(`Conversation not found: ${conversationId}`);
+  }
+  return formatConversation(record, format);
+}
+
+/**
+ * Seed a conversation from a JSON or JSONL export
+ * Markdown exports are for reading only and cannot be imported. JSONL carries
+ * no conversation ID, so one must be given in the options.
+ */
+export function importConversation(
+  historyManager: IHistoryManager,
+  content: string,
+  options: ConversationImportOptions = {},
+): ConversationRecord {
+  const format = options.format ?? detectFormat(content);
+  const parsed =
+    format === "json" ? parseJsonExport(content) : parseJsonlExport(content);
+
+  const conversationId = options.conversationId || parsed.id;
+  if (!conversationId) {
+    throw new Error("conversation_id is required when importing JSONL");
+  }
+  if (parsed.messages.length === 0) {
+    throw new Error("The export contains no user or assistant messages");
+  }
+  if (!options.overwrite && historyManager.getConversation(conversationId)) {
+    throw new Error(
+      `Conversation already exists: ${conversationId}. Pass overwrite to replace it.`,
+    );
+  }
+
+  const now = Date.now();
+  const timestamps = parsed.messages
+    .map((message) => message.timestamp)
+    .filter((timestamp) => timestamp !== undefined);
+  const record: ConversationRecord = {
+    id: conversationId,
+    messages: parsed.messages,
+    createdAt: parsed.createdAt ?? (timestamps.length > 0 ? Math.min(...timestamps) : now),
+    updatedAt: parsed.updatedAt ?? (timestamps.length > 0 ? Math.max(...timestamps) : now),
+    ...(parsed.systemPrompt ? { systemPrompt: parsed.systemPrompt } : {}),
+  };
+
+  // Stored under the same history token cap as live conversations
+  return historyManager.saveConversation(record);
+}
+
+interface ParsedExport {
+  id?: string;
+  createdAt?: number;
+  updatedAt?: number;
+  systemPrompt?: string;
+  messages: ConversationMessage[];
+}
+
+/**
+ * Tell a JSON export (one object) from JSONL (one message per line)
+ */
+function detectFormat(content: string): "json" | "jsonl" {
+  try {
+    const value = JSON.parse(content);
+    // A single-line JSONL file parses as one message object
+    return isRecord(value) && Array.isArray(value.messages) ? "json" : "jsonl";
+  } catch {
+    return "jsonl";
+  }
+}
+
+/**
+ * Parse a JSON export produced by export_conversation
+ */
+function parseJsonExport(content: string): ParsedExport {
+  let value: unknown;
+  try {
+    value = JSON.parse(content);
+  } catch (error) {
+    throw new Error(`Invalid JSON export: ${(error as Error).message}`);
+  }
+
+  if (!isRecord(value) || !Array.isArray(value.messages)) {
+    throw new Error("Invalid JSON export: expected an object with a messages array");
+  }
+  if (value.format !== undefined && value.format !== CONVERSATION_EXPORT_FORMAT) {
+    throw new Error(`Unsupported export format: ${String(value.format)}`);
+  }
+
+  const parsed = collectMessages(value.messages, "messages");
+  if (typeof value.system_prompt === "string" && value.system_prompt) {
+    parsed.systemPrompt = value.system_prompt;
+  }
+
+  return {
+    ...parsed,
+    id: typeof value.id === "string" && value.id ? value.id : undefined,
+    createdAt: parseTimestamp(value.created_at, "created_at"),
+    updatedAt: parseTimestamp(value.updated_at, "updated_at"),
+  };
+}
+
+/**
+ * Parse OpenAI-format JSONL: one message per line, or one {"messages": [...]} line
+ */
+function parseJsonlExport(content: string): ParsedExport {
+  const entries: unknown[] = [];
+  const lines = content.split(/\r?\n/);
+
+  lines.forEach((line, index) => {
+    if (!line.trim()) {
+      return;
+    }
+
+    let value: unknown;
+    try {
+      value = JSON.parse(line);
+    } catch (error) {
+      throw new Error(`Invalid JSONL on line ${index + 1}: ${(error as Error).message}`);
+    }
+
+    if (isRecord(value) && Array.isArray(value.messages)) {
+      entries.push(...value.messages);
+    } else {
+      entries.push(value);
+    }
+  });
+
+  return collectMessages(entries, "line");
+}
+
+/**
+ * Validate exported messages, moving system messages into the system prompt
+ */
+function collectMessages(entries: unknown[], label: string): ParsedExport {
+  const messages: ConversationMessage[] = [];
+  const systemPrompts: string[] = [];
+
+  entries.forEach((entry, index) => {
+    const where = `${label} ${label === "line" ? index + 1 : `[${index}]`}`;
+    if (!isRecord(entry)) {
+      throw new Error(`Invalid message at ${where}: expected an object`);
+    }
+    if (typeof entry.role !== "string" || !MESSAGE_ROLES.has(entry.role)) {
+      throw new Error(`Invalid message at ${where}: role must be system, user or assistant`);
+    }
+    if (typeof entry.content !== "string") {
+      throw new Error(`Invalid message at ${where}: content must be a string`);
+    }
+
+    if (entry.role === "system") {
+      systemPrompts.push(entry.content);
+      return;
+    }
+
+    const message: ConversationMessage = {
+      role: entry.role as ConversationMessage["role"],
+      content: entry.content,
+    };
+    const timestamp = parseTimestamp(entry.timestamp, `${where} timestamp`);
+    if (timestamp !== undefined) {
+      message.timestamp = timestamp;
+    }
+    if (typeof entry.model === "string") {
+      message.model = entry.model;
+    }
+    if (Array.isArray(entry.models) && entry.models.every((m) => typeof m === "string")) {
+      message.models = entry.models;
+    }
+    if (isRecord(entry.usage)) {
+      message.usage = {
+        prompt_tokens: Number(entry.usage.prompt_tokens) || 0,
+        completion_tokens: Number(entry.usage.completion_tokens) || 0,
+        total_tokens: Number(entry.usage.total_tokens) || 0,
+      };
+    }
+    if (typeof entry.cost_usd === "number") {
+      message.cost_usd = entry.cost_usd;
+    }
+    messages.push(message);
+  });
+
+  return {
+    messages,
+    ...(systemPrompts.length > 0 ? { systemPrompt: systemPrompts.join("\n\n") } : {}),
+  };
+}
+
+/**
+ * Accept epoch milliseconds or ISO date strings
+ */
+function parseTimestamp(value: unknown, field: string): number | undefined {
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+
+  const time =
+    typeof value === "number" ? value : typeof value === "string" ? Date.parse(value) : NaN;
+  if (!Number.isFinite(time)) {
+    throw new Error(`Invalid timestamp in ${field}: ${JSON.stringify(value)}`);
+  }
+  return time;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
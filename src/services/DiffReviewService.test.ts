@@ -0,0 +1,104 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import type { ConsultArgs, ConsultResult, FileDiff } from "../types/index.js";
+import type { ConsultationService } from "./ConsultationService.js";
+import { DiffReviewService } from "./DiffReviewService.js";
+
+process.env.OPENROUTER_API_KEY ??= "test-key";
+process.env.DIFF_CHUNK_MAX_KB = "1";
+process.env.DIFF_MAX_FILES = "2";
+
+const HEADER = "diff --git a/big.ts b/big.ts\n--- a/big.ts\n+++ b/big.ts\n";
+
+const hunk = (line: number, size: number) =>
+  `@@ -${line},1 +${line},1 @@\n-old\n+${"x".repeat(size)}\n`;
+
+/**
+ * Review the given file diffs, recording the prompt of every consultation
+ */
+async function review(fileDiffs: FileDiff[], fail?: (prompt: string) => boolean) {
+  const prompts: string[] = [];
+  const consultationService = {
+    consult: async (args: ConsultArgs): Promise<ConsultResult> => {
+      prompts.push(args.prompt);
+      if (fail?.(args.prompt)) {
+        throw new Error("upstream failed");
+      }
+      return {
+        model: "gpt-5",
+        response: "Looks good",
+        usage: { prompt_tokens: 100, completion_tokens: 10, total_tokens: 110 },
+        cost_usd: 0.01,
+      };
+    },
+  } as unknown as ConsultationService;
+  const diffReader = { readDiff: async () => fileDiffs };
+
+  const response = await new DiffReviewService(consultationService, diffReader).review({});
+  return { response, prompts };
+}
+
+describe("DiffReviewService", () => {
+  test("reviews each file separately and totals the usage", async () => {
+    const { response, prompts } = await review([
+      { path: "a.ts", diff: "diff --git a/a.ts b/a.ts\n@@ -1 +1 @@\n-a\n+b", binary: false },
+      { path: "b.ts", diff: "diff --git a/b.ts b/b.ts\n@@ -1 +1 @@\n-a\n+b", binary: false },
+    ]);
+
+    assert.equal(prompts.length, 2);
+    assert.deepEqual(response.reviews.map((r) => r.path), ["a.ts", "b.ts"]);
+    assert.equal(response.files_reviewed, 2);
+    assert.equal(response.total_tokens_used.total_tokens, 220);
+    assert.equal(response.total_cost_usd, 0.02);
+  });
+
+  test("skips binary files and files beyond DIFF_MAX_FILES", async () => {
+    const { response } = await review([
+      { path: "logo.png", diff: "", binary: true },
+      { path: "a.ts", diff: "+a", binary: false },
+      { path: "b.ts", diff: "+b", binary: false },
+      { path: "c.ts", diff: "+c", binary: false },
+    ]);
+
+    assert.deepEqual(response.reviews.map((r) => r.path), ["a.ts", "b.ts"]);
+    assert.deepEqual(response.skipped, [
+      { path: "logo.png", reason: "binary file" },
+      { path: "c.ts", reason: "more than 2 changed files (DIFF_MAX_FILES)" },
+    ]);
+  });
+
+  test("splits large file diffs between hunks, repeating the file header", async () => {
+    const diff = `${HEADER}${hunk(1, 400)}${hunk(10, 400)}${hunk(20, 400)}`;
+    const { response, prompts } = await review([{ path: "big.ts", diff, binary: false }]);
+
+    assert.deepEqual(response.reviews.map((r) => r.part), ["1/2", "2/2"]);
+    assert.ok(prompts.every((prompt) => prompt.includes(HEADER)));
+    assert.ok(prompts[0].includes("@@ -1,1") && prompts[0].includes("@@ -10,1"));
+    assert.ok(prompts[1].includes("@@ -20,1") && !prompts[1].includes("@@ -10,1"));
+    assert.equal(response.files_reviewed, 1);
+  });
+
+  test("truncates a single hunk larger than the chunk size", async () => {
+    const { prompts } = await review([
+      { path: "big.ts", diff: `${HEADER}${hunk(1, 3000)}`, binary: false },
+    ]);
+
+    assert.equal(prompts.length, 1);
+    assert.match(prompts[0], /\.\.\. \(hunk truncated\)/);
+    assert.ok(prompts[0].length < 2000);
+  });
+
+  test("reports a failed review in its entry instead of failing the whole review", async () => {
+    const { response } = await review(
+      [
+        { path: "a.ts", diff: "+a", binary: false },
+        { path: "b.ts", diff: "+b", binary: false },
+      ],
+      (prompt) => prompt.includes("`b.ts`"),
+    );
+
+    assert.equal(response.reviews[0].error, undefined);
+    assert.equal(response.reviews[1].error, "upstream failed");
+    assert.equal(response.reviews[1].cost_usd, 0);
+  });
+});
@@ -0,0 +1,203 @@
+/**
+ * Diff review service
+ * Reviews pending git changes file by file through the consultation service
+ */
+
+import type {
+  ConsultContext,
+  DiffReviewArgs,
+  DiffReviewResponse,
+  FileDiff,
+  FileReview,
+  IGitDiffReader,
+  SkippedFile,
+} from "../types/index.js";
+import type { ConsultationService } from "./ConsultationService.js";
+import { mapWithConcurrency } from "../utils/Concurrency.js";
+import {
+  buildDiffReviewPrompt,
+  DIFF_REVIEW_SYSTEM_PROMPT,
+} from "./PromptTemplates.js";
+import { Config } from "../config/Config.js";
+
+interface DiffChunk {
+  path: string;
+  diff: string;
+  part?: string;
+}
+
+export class DiffReviewService {
+  private readonly config: Config;
+
+  constructor(
+    private readonly consultationService: ConsultationService,
+    private readonly diffReader: IGitDiffReader,
+  ) {
+    this.config = Config.getInstance();
+  }
+
+  /**
+   * Review a repository's staged, unstaged or ref-range changes
+   * Each file (or each part of a very large file diff) is reviewed separately.
+   */
+  public async review(
+    args: DiffReviewArgs,
+    context: ConsultContext = {},
+  ): Promise<DiffReviewResponse> {
+    const { repo_path = ".", source = "unstaged", ref_range, paths, model } = args;
+
+    const fileDiffs = await this.diffReader.readDiff({
+      repoPath: repo_path,
+      source,
+      refRange: ref_range,
+      paths,
+    });
+
+    if (this.config.verboseLogging) {
+      console.error(`[DiffReview] ${fileDiffs.length} changed files in ${repo_path} (${source}${ref_range ? ` ${ref_range}` : ""})`);
+    }
+
+    const skipped: SkippedFile[] = [];
+    const reviewable: FileDiff[] = [];
+    for (const fileDiff of fileDiffs) {
+      if (fileDiff.binary) {
+        skipped.push({ path: fileDiff.path, reason: "binary file" });
+      } else if (reviewable.length >= this.config.diffMaxFiles) {
+        skipped.push({
+          path: fileDiff.path,
+          reason: `more than ${this.config.diffMaxFiles} changed files (DIFF_MAX_FILES)`,
+        });
+      } else {
+        reviewable.push(fileDiff);
+      }
+    }
+
+    const maxChunkChars = this.config.diffChunkMaxKb * 1024;
+    const chunks = reviewable.flatMap((fileDiff) =>
+      splitFileDiff(fileDiff, maxChunkChars),
+    );
+    const systemPrompt = args.system_prompt?.trim()
+      ? `${DIFF_REVIEW_SYSTEM_PROMPT}\n\n${args.system_prompt.trim()}`
+      : DIFF_REVIEW_SYSTEM_PROMPT;
+
+    let completed = 0;
+    const reviews = await mapWithConcurrency(
+      chunks,
+      this.config.multiModelConcurrency,
+      async (chunk) => {
+        const review = await this.reviewChunk(
+          chunk,
+          systemPrompt,
+          model,
+          context.clientId,
+        );
+
+        completed++;
+        context.onProgress?.({
+          progress: completed,
+          total: chunks.length,
+          message: `Reviewed ${chunk.path}${chunk.part ? ` (part ${chunk.part})` : ""}`,
+        });
+
+        return review;
+      },
+    );
+
+    return {
+      repo_path,
+      source,
+      ...(ref_range ? { ref_range } : {}),
+      files_reviewed: reviewable.length,
+      reviews,
+      skipped,
+      total_tokens_used: {
+        prompt_tokens: reviews.reduce((sum, r) => sum + (r.tokens_used.prompt_tokens || 0), 0),
+        completion_tokens: reviews.reduce((sum, r) => sum + (r.tokens_used.completion_tokens || 0), 0),
+        total_tokens: reviews.reduce((sum, r) => sum + (r.tokens_used.total_tokens || 0), 0),
+      },
+      total_cost_usd: reviews.reduce((sum, r) => sum + r.cost_usd, 0),
+    };
+  }
+
+  /**
+   * Review one chunk; failures are reported in the entry instead of thrown
+   */
+  private async reviewChunk(
+    chunk: DiffChunk,
+    systemPrompt: string,
+    model: string | undefined,
+    clientId: string | undefined,
+  ): Promise<FileReview> {
+    try {
+      const result = await this.consultationService.consult(
+        {
+          prompt: buildDiffReviewPrompt(chunk.path, chunk.diff, chunk.part),
+          model,
+          system_prompt: systemPrompt,
+          task_description: "code review",
+        },
+        { clientId },
+      );
+      const cached = result.model.includes("(cached)");
+
+      return {
+        path: chunk.path,
+        ...(chunk.part ? { part: chunk.part } : {}),
+        model: result.model.replace(" (cached)", ""),
+        response: result.response,
+        tokens_used: result.usage,
+        cost_usd: result.cost_usd ?? 0,
+        cached,
+      };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error(`[DiffReview] Error reviewing ${chunk.path}:`, message);
+      return {
+        path: chunk.path,
+        ...(chunk.part ? { part: chunk.part } : {}),
+        model: model ?? "auto",
+        response: `Error: ${message}`,
+        tokens_used: { prompt_tokens: 0, completion_tokens: 0, total_tokens: 0 },
+        cost_usd: 0,
+        cached: false,
+        error: message,
+      };
+    }
+  }
+}
+
+/**
+ * Split a file diff into chunks of at most `maxChars`, breaking between hunks
+ * Every chunk repeats the file header; a single oversized hunk is truncated.
+ */
+function splitFileDiff(fileDiff: FileDiff, maxChars: number): DiffChunk[] {
+  if (fileDiff.diff.length <= maxChars) {
+    return [{ path: fileDiff.path, diff: fileDiff.diff }];
+  }
+
+  const [header, ...hunks] = fileDiff.diff.split(/^(?=@@ )/m);
+  const budget = Math.max(1, maxChars - header.length);
+  const parts: string[] = [];
+  let current = "";
+
+  for (const hunk of hunks) {
+    const fitted =
+      hunk.length > budget
+        ? `${hunk.slice(0, budget)}\n... (hunk truncated)\n`
+        : hunk;
+    if (current && current.length + fitted.length > budget) {
+      parts.push(current);
+      current = "";
+    }
+    current += fitted;
+  }
+  if (current) {
+    parts.push(current);
+  }
+
+  return parts.map((part, index) => ({
+    path: fileDiff.path,
+    diff: `${header}${part}`.trimEnd(),
+    ...(parts.length > 1 ? { part: `${index + 1}/${parts.length}` } : {}),
+  }));
+}
@@ -0,0 +1,154 @@
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { describe, test } from "node:test";
+import { fileURLToPath } from "node:url";
+import type { AvailableModels, ModelCatalogSnapshot } from "../types/index.js";
+import { ProviderType } from "../types/index.js";
+import { DEFAULT_MODEL_REGISTRY } from "../config/DefaultModels.js";
+import { ModelCatalogService, mergeCatalog } from "./ModelCatalogService.js";
+import { ModelSelector } from "./ModelSelector.js";
+
+process.env.OPENROUTER_API_KEY ??= "test-key";
+
+// Recorded /models response: lists everything built in except openai/gpt-5-codex
+const SNAPSHOT_PATH = fileURLToPath(
+  new URL("./fixtures/openrouter-models.json", import.meta.url),
+);
+const snapshot = JSON.parse(
+  fs.readFileSync(SNAPSHOT_PATH, "utf8"),
+) as ModelCatalogSnapshot;
+
+const base: AvailableModels = {
+  ...DEFAULT_MODEL_REGISTRY.models,
+  retired: {
+    id: "acme/retired-model",
+    description: "No longer served by OpenRouter",
+    bestFor: [],
+  },
+  local: {
+    id: "llama3.1",
+    description: "Served by Ollama",
+    bestFor: [],
+    provider: ProviderType.OLLAMA,
+  },
+};
+
+describe("mergeCatalog", () => {
+  test("overlays catalog metadata on registry models", () => {
+    const merged = mergeCatalog(base, snapshot.models, []);
+
+    assert.equal(merged["grok-code-fast-1"].contextLength, 256000);
+    assert.deepEqual(merged["grok-code-fast-1"].pricing, { prompt: 0.2, completion: 1.5 });
+    assert.deepEqual(merged["gemini-2.5-pro"].capabilities?.inputModalities, [
+      "file",
+      "image",
+      "text",
+      "audio",
+    ]);
+    assert.equal(merged["gemini-2.5-pro"].capabilities?.structuredOutput, true);
+    // Registry fields the catalog knows nothing about are kept
+    assert.deepEqual(merged["gemini-2.5-pro"].fallbacks, ["gpt-5-codex", "grok-code-fast-1"]);
+  });
+
+  test("drops OpenRouter models missing from the catalog", () => {
+    const merged = mergeCatalog(base, snapshot.models, []);
+
+    assert.equal(merged.retired, undefined);
+    assert.equal(merged["gpt-5-codex"], undefined);
+  });
+
+  test("keeps missing models named in keep unchanged", () => {
+    const merged = mergeCatalog(base, snapshot.models, [], ["gpt-5-codex"]);
+
+    assert.deepEqual(merged["gpt-5-codex"], base["gpt-5-codex"]);
+    assert.equal(merged.retired, undefined);
+  });
+
+  test("leaves models on other providers untouched", () => {
+    const merged = mergeCatalog(base, snapshot.models, []);
+
+    assert.deepEqual(merged.local, base.local);
+  });
+
+  test("leaves every model untouched for an empty catalog", () => {
+    assert.deepEqual(mergeCatalog(base, [], ["anthropic/*"]), base);
+  });
+
+  test("adds catalog models matching MODEL_CATALOG_INCLUDE under their short name", () => {
+    const merged = mergeCatalog(base, snapshot.models, ["anthropic/claude-*"]);
+
+    assert.equal(merged["claude-sonnet-4.5"].id, "anthropic/claude-sonnet-4.5");
+    assert.equal(merged["claude-sonnet-4.5"].description, "Anthropic: Claude Sonnet 4.5");
+    assert.equal(merged["claude-sonnet-4.5"].contextLength, 1000000);
+    assert.equal(merged["claude-opus-4.1"].id, "anthropic/claude-opus-4.1");
+    assert.equal(merged["gpt-5"], undefined);
+  });
+
+  test("adds an included model under its full ID when the short name is taken", () => {
+    const merged = mergeCatalog(
+      { ...base, "gpt-5": { id: "openai/gpt-5-mini", description: "", bestFor: [] } },
+      [...snapshot.models, { id: "openai/gpt-5-mini" }],
+      ["openai/*"],
+    );
+
+    assert.equal(merged["gpt-5"].id, "openai/gpt-5-mini");
+    assert.equal(merged["openai/gpt-5"].id, "openai/gpt-5");
+  });
+});
+
+describe("ModelCatalogService", () => {
+  const createService = (snapshotPath: string, include: string[] = []) => {
+    const modelSelector = new ModelSelector();
+    const service = new ModelCatalogService(modelSelector, {
+      snapshotPath,
+      maxAgeMs: Infinity,
+      include,
+      defaultModel: DEFAULT_MODEL_REGISTRY.defaultModel,
+    });
+    const changes: string[][] = [];
+    service.on("modelsChanged", (names: string[]) => changes.push(names));
+    return { modelSelector, service, changes };
+  };
+
+  test("applies the recorded snapshot and emits modelsChanged", () => {
+    const { modelSelector, service, changes } = createService(SNAPSHOT_PATH, [
+      "anthropic/claude-sonnet-*",
+    ]);
+
+    assert.equal(service.loadSnapshot(), true);
+    assert.equal(service.isStale(), false);
+    assert.deepEqual(changes, [
+      ["gemini-2.5-pro", "gpt-5-codex", "grok-code-fast-1", "claude-sonnet-4.5"],
+    ]);
+    assert.equal(modelSelector.resolveModel("claude-sonnet-4.5")?.contextLength, 1000000);
+  });
+
+  test("keeps the default model when the catalog omits it", () => {
+    const { modelSelector, service } = createService(SNAPSHOT_PATH);
+
+    service.loadSnapshot();
+
+    assert.equal(modelSelector.selectModel("hello").id, "openai/gpt-5-codex");
+  });
+
+  test("does not emit modelsChanged when the model names stay the same", () => {
+    const { service, changes } = createService(SNAPSHOT_PATH);
+
+    service.loadSnapshot();
+    service.loadSnapshot();
+
+    assert.deepEqual(changes, []);
+  });
+
+  test("reports a missing snapshot as stale without changing models", () => {
+    const missing = path.join(os.tmpdir(), `catalog-${process.pid}-missing.json`);
+    const { modelSelector, service, changes } = createService(missing);
+
+    assert.equal(service.loadSnapshot(), false);
+    assert.equal(service.isStale(), true);
+    assert.deepEqual(changes, []);
+    assert.deepEqual(modelSelector.getModelNames(), Object.keys(DEFAULT_MODEL_REGISTRY.models));
+  });
+});
@@ -0,0 +1,315 @@
+/**
+ * Model catalog service
+ * Syncs model metadata from the OpenRouter /models endpoint into the model selector,
+ * keeping an on-disk snapshot so startup works offline
+ */
+
+import { EventEmitter } from "node:events";
+import fs from "node:fs";
+import path from "node:path";
+import axios from "axios";
+import type {
+  AvailableModels,
+  CatalogSyncResult,
+  GenerationParameterName,
+  IModelSelector,
+  ModelCatalogSnapshot,
+  ModelConfig,
+  OpenRouterCatalogModel,
+} from "../types/index.js";
+import { ApiError, ProviderType } from "../types/index.js";
+import { Config } from "../config/Config.js";
+import { DEFAULT_MODEL_REGISTRY } from "../config/DefaultModels.js";
+import { writeFileAtomicSync } from "../utils/AtomicWrite.js";
+import { GENERATION_PARAMETER_NAMES } from "../utils/GenerationParameters.js";
+import { OPENROUTER_BASE_URL } from "./providers/OpenRouterProvider.js";
+
+const FETCH_TIMEOUT_MS = 30000;
+
+export interface ModelCatalogOptions {
+  snapshotPath: string;
+  maxAgeMs: number; // Snapshots older than this are refreshed on startup
+  include: string[]; // Catalog ID patterns (with * wildcards) to add as models
+  defaultModel?: string; // Kept, like the built-in models, when the catalog omits it
+  apiKey?: string;
+}
+
+export class ModelCatalogService extends EventEmitter {
+  private readonly config: Config;
+  private readonly baseModels: AvailableModels;
+  private readonly keptModels: string[];
+  private snapshot: ModelCatalogSnapshot | null = null;
+  private pendingRefresh: Promise<CatalogSyncResult> | null = null;
+
+  constructor(
+    private readonly modelSelector: IModelSelector,
+    private readonly options: ModelCatalogOptions,
+  ) {
+    super();
+    this.config = Config.getInstance();
+    // Catalog data is always merged onto the registry, never onto a previous merge
+    this.baseModels = modelSelector.getAllModels();
+    // Auto-selection falls back to these, so a partial catalog must not remove them
+    const builtinIds = new Set(
+      Object.values(DEFAULT_MODEL_REGISTRY.models).map((model) => model.id),
+    );
+    this.keptModels = Object.entries(this.baseModels)
+      .filter(
+        ([name, model]) => name === options.defaultModel || builtinIds.has(model.id),
+      )
+      .map(([name]) => name);
+  }
+
+  /**
+   * Load and apply the on-disk snapshot
+   * Returns false when there is no usable snapshot
+   */
+  public loadSnapshot(): boolean {
+    try {
+      const snapshot = JSON.parse(
+        fs.readFileSync(this.options.snapshotPath, "utf8"),
+      ) as ModelCatalogSnapshot;
+
+      if (!Array.isArray(snapshot.models)) {
+        throw new Error("snapshot has no models array");
+      }
+
+      this.apply(snapshot);
+      if (this.config.verboseLogging) {
+        console.error(`[Catalog] Loaded ${snapshot.models.length} models from ${this.options.snapshotPath}`);
+      }
+      return true;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+        console.error(`[Catalog] Ignoring unreadable snapshot ${this.options.snapshotPath}:`, error);
+      }
+      return false;
+    }
+  }
+
+  /**
+   * Check whether the snapshot is missing or older than the max age
+   */
+  public isStale(): boolean {
+    return (
+      !this.snapshot ||
+      Date.now() - this.snapshot.fetchedAt > this.options.maxAgeMs
+    );
+  }
+
+  /**
+   * Fetch the catalog from OpenRouter, persist it and apply it
+   * Concurrent calls share a single request
+   */
+  public refresh(): Promise<CatalogSyncResult> {
+    if (!this.pendingRefresh) {
+      this.pendingRefresh = this.fetchAndApply().finally(() => {
+        this.pendingRefresh = null;
+      });
+    }
+    return this.pendingRefresh;
+  }
+
+  /**
+   * Fetch, persist and apply the catalog
+   */
+  private async fetchAndApply(): Promise<CatalogSyncResult> {
+    const url = `${OPENROUTER_BASE_URL}/models`;
+
+    if (this.config.verboseLogging) {
+      console.error(`[Catalog] Fetching ${url}`);
+    }
+
+    let models: OpenRouterCatalogModel[];
+    try {
+      const response = await axios.get<{ data: OpenRouterCatalogModel[] }>(url, {
+        timeout: FETCH_TIMEOUT_MS,
+        headers: this.options.apiKey
+          ? { Authorization: `Bearer ${this.options.apiKey}` }
+          : {},
+      });
+      models = response.data.data;
+    } catch (error) {
+      throw new ApiError(
+        `Failed to fetch model catalog: ${error instanceof Error ? error.message : String(error)}`,
+        axios.isAxiosError(error) ? error.response?.status : undefined,
+        error instanceof Error ? error : undefined,
+      );
+    }
+
+    if (!Array.isArray(models)) {
+      throw new ApiError("Failed to fetch model catalog: response has no data array");
+    }
+
+    const snapshot: ModelCatalogSnapshot = { fetchedAt: Date.now(), models };
+
+    try {
+      fs.mkdirSync(path.dirname(this.options.snapshotPath), { recursive: true });
+      writeFileAtomicSync(this.options.snapshotPath, JSON.stringify(snapshot));
+    } catch (error) {
+      console.error(`[Catalog] Failed to write snapshot ${this.options.snapshotPath}:`, error);
+    }
+
+    return this.apply(snapshot);
+  }
+
+  /**
+   * Merge a snapshot into the model selector
+   * Emits "modelsChanged" when the set of model names changes
+   */
+  private apply(snapshot: ModelCatalogSnapshot): CatalogSyncResult {
+    const before = this.modelSelector.getModelNames();
+    const merged = mergeCatalog(
+      this.baseModels,
+      snapshot.models,
+      this.options.include,
+      this.keptModels,
+    );
+    this.modelSelector.setModels(merged);
+    this.snapshot = snapshot;
+
+    const after = this.modelSelector.getModelNames();
+    const added = after.filter((name) => !before.includes(name));
+    const removed = before.filter((name) => !after.includes(name));
+    const changed = added.length > 0 || removed.length > 0;
+
+    if (changed) {
+      if (this.config.verboseLogging) {
+        console.error(`[Catalog] Models changed - added: ${added.join(", ") || "none"}, removed: ${removed.join(", ") || "none"}`);
+      }
+      this.emit("modelsChanged", after);
+    }
+
+    return {
+      fetched_at: new Date(snapshot.fetchedAt).toISOString(),
+      catalog_size: snapshot.models.length,
+      models: Object.keys(merged),
+      added,
+      removed,
+      changed,
+    };
+  }
+}
+
+/**
+ * Merge OpenRouter catalog data into registry models
+ *
+ * - OpenRouter models found in the catalog take its context length, pricing and modalities
+ * - OpenRouter models missing from a non-empty catalog are dropped as stale,
+ *   except those named in `keep`, which stay unchanged
+ * - Catalog models matching an include pattern are added under their short name
+ * - Models on other providers are left untouched
+ */
+export function mergeCatalog(
+  base: AvailableModels,
+  catalog: readonly OpenRouterCatalogModel[],
+  include: readonly string[],
+  keep: readonly string[] = [],
+): Record<string, ModelConfig> {
+  const byId = new Map(catalog.map((entry) => [entry.id, entry]));
+  const merged: Record<string, ModelConfig> = {};
+
+  for (const [name, model] of Object.entries(base)) {
+    const onOpenRouter = (model.provider ?? ProviderType.OPENROUTER) === ProviderType.OPENROUTER;
+    const entry = byId.get(model.id);
+
+    if (!onOpenRouter || catalog.length === 0) {
+      merged[name] = model;
+    } else if (entry) {
+      merged[name] = applyCatalogEntry(model, entry);
+    } else if (keep.includes(name)) {
+      console.error(`[Catalog] Keeping ${name}: ${model.id} is not listed by OpenRouter, but it is the default or a built-in model`);
+      merged[name] = model;
+    } else {
+      console.error(`[Catalog] Dropping ${name}: ${model.id} is no longer listed by OpenRouter`);
+    }
+  }
+
+  const knownIds = new Set(Object.values(merged).map((m) => m.id));
+  const patterns = include.map(patternToRegExp);
+
+  for (const entry of catalog) {
+    if (knownIds.has(entry.id) || !patterns.some((p) => p.test(entry.id))) {
+      continue;
+    }
+
+    const shortName = entry.id.split("/").pop() || entry.id;
+    const name = merged[shortName] ? entry.id : shortName;
+    merged[name] = applyCatalogEntry(
+      {
+        id: entry.id,
+        description: entry.name || entry.id,
+        bestFor: [],
+      },
+      entry,
+    );
+    knownIds.add(entry.id);
+  }
+
+  return merged;
+}
+
+/**
+ * Overlay catalog metadata on a model config
+ */
+function applyCatalogEntry(
+  model: ModelConfig,
+  entry: OpenRouterCatalogModel,
+): ModelConfig {
+  const promptRate = Number(entry.pricing?.prompt);
+  const completionRate = Number(entry.pricing?.completion);
+  const hasPricing =
+    Number.isFinite(promptRate) &&
+    Number.isFinite(completionRate) &&
+    promptRate >= 0 &&
+    completionRate >= 0;
+  const supported = entry.supported_parameters;
+
+  return {
+    ...model,
+    contextLength: entry.context_length ?? model.contextLength,
+    pricing: hasPricing
+      ? { prompt: perMillion(promptRate), completion: perMillion(completionRate) }
+      : model.pricing,
+    capabilities: {
+      ...model.capabilities,
+      ...(supported
+        ? {
+            structuredOutput: supported.includes("structured_outputs"),
+            reasoning: supported.includes("reasoning"),
+            parameters: catalogParameters(supported),
+          }
+        : {}),
+      inputModalities:
+        entry.architecture?.input_modalities ?? model.capabilities?.inputModalities,
+    },
+  };
+}
+
+/**
+ * Map OpenRouter's supported_parameters onto consult_ai generation parameters
+ */
+function catalogParameters(supported: string[]): GenerationParameterName[] {
+  return GENERATION_PARAMETER_NAMES.filter((name) =>
+    supported.includes(name === "reasoning_effort" ? "reasoning" : name),
+  );
+}
+
+/**
+ * Convert a per-token USD rate to a per-million-token rate
+ * Rounded to drop floating-point noise (0.0000002 * 1e6 = 0.19999999999999998)
+ */
+function perMillion(rate: number): number {
+  return Number((rate * 1_000_000).toPrecision(12));
+}
+
+/**
+ * Convert an ID pattern with * wildcards to a RegExp
+ */
+function patternToRegExp(pattern: string): RegExp {
+  const escaped = pattern
+    .split("*")
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+    .join(".*");
+  return new RegExp(`^${escaped}$`);
+}
@@ -7,87 +7,24 @@ import type {
   IModelSelector,
   ModelConfig,
   AvailableModels,
-  ModelType,
+  ModelRegistry,
 } from "../types/index.js";
+import { ProviderType } from "../types/index.js";
+import { DEFAULT_MODEL_REGISTRY } from "../config/DefaultModels.js";
 
 /**
- * Available AI models configuration
+ * Selection strategies in priority order
+ * Each maps task keywords to the bestFor tags of suitable models
  */
-const AVAILABLE_MODELS: AvailableModels = {
-  "gemini-2.5-pro": {
-    id: "google/gemini-2.5-pro",
-    description: "Google's Gemini 2.5 Pro with large context window",
-    bestFor: ["large context", "general purpose", "quick questions"],
-  },
-  "gpt-5-codex": {
-    id: "openai/gpt-5-codex",
-    description: "OpenAI's GPT-5 Codex, optimized for coding tasks",
-    bestFor: ["coding", "complex tasks", "large context", "debugging", "refactoring"],
-  },
-  "grok-code-fast-1": {
-    id: "x-ai/grok-code-fast-1",
-    description: "xAI's Grok Code Fast 1, optimized for code-related tasks",
-    bestFor: ["complex reasoning", "code review", "detailed analysis", "budget"],
-  },
-} as const;
-
-export class ModelSelector implements IModelSelector {
-  private readonly models: AvailableModels;
-
-  constructor() {
-    this.models = AVAILABLE_MODELS;
-  }
-
-  /**
-   * Select best model based on task description
-   * Uses keyword matching strategy
-   */
-  public selectModel(taskDescription: string): ModelConfig {
-    const lowerDesc = taskDescription.toLowerCase();
-
+const SELECTION_STRATEGIES: ReadonlyArray<{
+  name: string;
+  keywords: readonly string[];
+  bestForTags: readonly string[];
+}> = [
+  {
     // Strategy 1: Coding-related keywords
-    if (this.isCodingTask(lowerDesc)) {
-      return this.models["gpt-5-codex"];
-    }
-
-    // Strategy 2: Complex analysis keywords
-    if (this.isComplexAnalysisTask(lowerDesc)) {
-      return this.models["grok-code-fast-1"];
-    }
-
-    // Strategy 3: Quick/simple questions or large context
-    if (this.isQuickQuestionTask(lowerDesc)) {
-      return this.models["gemini-2.5-pro"];
-    }
-
-    // Strategy 4: Budget-conscious
-    if (this.isBudgetTask(lowerDesc)) {
-      return this.models["grok-code-fast-1"];
-    }
-
-    // Default: GPT-5 Codex (good all-rounder for coding)
-    return this.models["gpt-5-codex"];
-  }
-
-  /**
-   * Get model by ID (short name like "gpt-5-codex")
-   */
-  public getModelById(modelId: string): ModelConfig | undefined {
-    return this.models[modelId as ModelType];
-  }
-
-  /**
-   * Get all available models
-   */
-  public getAllModels(): AvailableModels {
-    return this.models;
-  }
-
-  /**
-   * Check if task is coding-related
-   */
-  private isCodingTask(description: string): boolean {
-    const codingKeywords = [
+    name: "coding",
+    keywords: [
       "code",
       "coding",
       "typescript",
@@ -101,16 +38,13 @@ export class ModelSelector implements IModelSelector {
       "bug",
       "programming",
       "algorithm",
-    ];
-
-    return codingKeywords.some((keyword) => description.includes(keyword));
-  }
-
-  /**
-   * Check if task requires complex analysis
-   */
-  private isComplexAnalysisTask(description: string): boolean {
-    const complexKeywords = [
+    ],
+    bestForTags: ["coding", "debugging", "refactoring"],
+  },
+  {
+    // Strategy 2: Complex analysis keywords
+    name: "complex analysis",
+    keywords: [
       "complex",
       "architecture",
       "system design",
@@ -118,16 +52,13 @@ export class ModelSelector implements IModelSelector {
       "in-depth",
       "comprehensive",
       "thorough",
-    ];
-
-    return complexKeywords.some((keyword) => description.includes(keyword));
-  }
-
-  /**
-   * Check if task is a quick question
-   */
-  private isQuickQuestionTask(description: string): boolean {
-    const quickKeywords = [
+    ],
+    bestForTags: ["complex reasoning", "detailed analysis"],
+  },
+  {
+    // Strategy 3: Quick/simple questions or large context
+    name: "quick question",
+    keywords: [
       "quick",
       "simple",
       "explain",
@@ -135,25 +66,104 @@ export class ModelSelector implements IModelSelector {
       "how to",
       "large context",
       "summary",
-    ];
+    ],
+    bestForTags: ["quick questions", "general purpose"],
+  },
+  {
+    // Strategy 4: Budget-conscious
+    name: "budget",
+    keywords: ["budget", "cost-effective", "cheap", "affordable"],
+    bestForTags: ["budget"],
+  },
+];
 
-    return quickKeywords.some((keyword) => description.includes(keyword));
+export class ModelSelector implements IModelSelector {
+  private models: AvailableModels;
+  private readonly defaultModel: string;
+  private aliases: Map<string, string>;
+
+  constructor(registry: ModelRegistry = DEFAULT_MODEL_REGISTRY) {
+    this.defaultModel = registry.defaultModel;
+    this.models = {};
+    this.aliases = new Map();
+    this.setModels(registry.models);
   }
 
   /**
-   * Check if task is budget-conscious
+   * Replace the available models (e.g. after a catalog sync)
    */
-  private isBudgetTask(description: string): boolean {
-    const budgetKeywords = ["budget", "cost-effective", "cheap", "affordable"];
+  public setModels(models: AvailableModels): void {
+    this.models = models;
+    this.aliases = new Map();
+
+    for (const [name, model] of Object.entries(this.models)) {
+      for (const alias of model.aliases ?? []) {
+        this.aliases.set(alias, name);
+      }
+    }
+  }
 
-    return budgetKeywords.some((keyword) => description.includes(keyword));
+  /**
+   * Select best model based on task description
+   * Uses keyword matching strategy against each model's bestFor tags
+   */
+  public selectModel(taskDescription: string): ModelConfig {
+    const lowerDesc = taskDescription.toLowerCase();
+
+    for (const strategy of SELECTION_STRATEGIES) {
+      if (!strategy.keywords.some((keyword) => lowerDesc.includes(keyword))) {
+        continue;
+      }
+
+      const match = Object.values(this.models).find((model) =>
+        model.bestFor.some((tag) => strategy.bestForTags.includes(tag)),
+      );
+      if (match) {
+        return match;
+      }
+    }
+
+    // Default: the registry's default model, or the first one if it was removed
+    return this.models[this.defaultModel] ?? Object.values(this.models)[0];
+  }
+
+  /**
+   * Get model by short name or alias (like "gpt-5-codex")
+   */
+  public getModelById(modelId: string): ModelConfig | undefined {
+    const name = this.aliases.get(modelId) ?? modelId;
+    return Object.hasOwn(this.models, name) ? this.models[name] : undefined;
+  }
+
+  /**
+   * Get model by short name, alias or full model ID (like "openai/gpt-5-codex")
+   */
+  public resolveModel(modelId: string): ModelConfig | undefined {
+    return (
+      this.getModelById(modelId) ||
+      Object.values(this.models).find((m) => m.id === modelId)
+    );
+  }
+
+  /**
+   * Resolve the provider backend for a model
+   * Unknown models go to OpenRouter
+   */
+  public getProviderForModel(modelId: string): ProviderType {
+    return this.resolveModel(modelId)?.provider ?? ProviderType.OPENROUTER;
   }
 
   /**
-   * Get model names as array
+   * Get all available models
+   */
+  public getAllModels(): AvailableModels {
+    return this.models;
+  }
+
+  /**
+   * Get model names and aliases accepted by the tools
    */
   public getModelNames(): string[] {
-    return Object.keys(this.models);
+    return [...Object.keys(this.models), ...this.aliases.keys()];
   }
 }
-
@@ -0,0 +1,90 @@
+/**
+ * Prompt library
+ * Lists prompt templates and renders them with validated arguments
+ */
+
+import type {
+  PromptTemplate,
+  PromptTemplateLibrary,
+  RenderedPrompt,
+} from "../types/index.js";
+import { PromptTemplateError } from "../types/index.js";
+import { PLACEHOLDER_PATTERN } from "../config/PromptTemplateLoader.js";
+import { DEFAULT_PROMPT_TEMPLATES } from "../config/DefaultPromptTemplates.js";
+
+export class PromptLibrary {
+  constructor(
+    private readonly templates: PromptTemplateLibrary = DEFAULT_PROMPT_TEMPLATES,
+  ) {}
+
+  /**
+   * List all templates with their names
+   */
+  public list(): Array<PromptTemplate & { name: string }> {
+    return Object.entries(this.templates).map(([name, template]) => ({
+      name,
+      ...template,
+    }));
+  }
+
+  /**
+   * Get a template by name
+   */
+  public get(name: string): PromptTemplate | undefined {
+    return Object.hasOwn(this.templates, name) ? this.templates[name] : undefined;
+  }
+
+  /**
+   * Render a template
+   * Required arguments must be non-empty and unknown arguments are rejected.
+   * Lines whose placeholders all refer to omitted optional arguments are dropped.
+   */
+  public render(name: string, args: Record<string, string> = {}): RenderedPrompt {
+    const template = this.get(name);
+    if (!template) {
+      throw new PromptTemplateError(
+        `Unknown prompt template: ${name}. Available templates: ${Object.keys(this.templates).join(", ")}`,
+      );
+    }
+
+    const declared = new Set(template.arguments.map((a) => a.name));
+    const problems = [
+      ...template.arguments
+        .filter((a) => a.required && !args[a.name]?.trim())
+        .map((a) => `missing required argument "${a.name}"`),
+      ...Object.keys(args)
+        .filter((key) => !declared.has(key))
+        .map((key) => `unknown argument "${key}"`),
+      ...Object.entries(args)
+        .filter(([, value]) => typeof value !== "string")
+        .map(([key]) => `argument "${key}" must be a string`),
+    ];
+
+    if (problems.length > 0) {
+      throw new PromptTemplateError(
+        `Invalid arguments for prompt template ${name}: ${problems.join("; ")}`,
+        problems,
+      );
+    }
+
+    const prompt = template.template
+      .split("\n")
+      .filter((line) => {
+        const placeholders = [...line.matchAll(PLACEHOLDER_PATTERN)];
+        return (
+          placeholders.length === 0 ||
+          placeholders.some(([, key]) => args[key]?.trim())
+        );
+      })
+      .join("\n")
+      .replace(PLACEHOLDER_PATTERN, (_, key: string) => args[key] ?? "")
+      .replace(/\n{3,}/g, "\n\n")
+      .trim();
+
+    return {
+      prompt,
+      ...(template.models ? { models: template.models } : {}),
+      ...(template.persona ? { persona: template.persona } : {}),
+    };
+  }
+}
@@ -0,0 +1,142 @@
+/**
+ * Prompt templates
+ * Builds the internal prompts used for multi-model orchestration
+ */
+
+import type { ModelResponse } from "../types/index.js";
+import { codeFence } from "../utils/CodeFence.js";
+
+/**
+ * Build the prompt asking a model to merge several answers into one
+ */
+export function buildSynthesisPrompt(
+  originalPrompt: string,
+  responses: ModelResponse[],
+): string {
+  const answers = responses
+    .map((r, index) => `### Answer ${index + 1} (${r.model})\n\n${r.response}`)
+    .join("\n\n");
+
+  return [
+    "Several AI models were asked the same question. Merge their answers into a single consensus answer.",
+    "",
+    "## Original Question",
+    "",
+    originalPrompt,
+    "",
+    "## Answers",
+    "",
+    answers,
+    "",
+    "## Instructions",
+    "",
+    "Respond in markdown with exactly these sections:",
+    "1. **Agreement** - points on which the models agree",
+    "2. **Disagreement** - points on which they differ, attributing each position to its model",
+    "3. **Recommendation** - your merged answer, resolving disagreements with a brief justification",
+  ].join("\n");
+}
+
+/**
+ * Build the prompt for one model in a later debate round
+ * The model sees its own previous answer and the other models' answers
+ */
+export function buildDebatePrompt(
+  originalPrompt: string,
+  round: number,
+  ownPrevious: ModelResponse,
+  othersPrevious: ModelResponse[],
+): string {
+  const others = othersPrevious
+    .filter((r) => !r.error)
+    .map((r) => `### ${r.model}\n\n${r.response}`)
+    .join("\n\n");
+  const own = ownPrevious.error
+    ? "_You did not produce an answer in the previous round._"
+    : ownPrevious.response;
+
+  return [
+    `This is round ${round} of a structured debate between AI models on the question below.`,
+    "",
+    "## Question",
+    "",
+    originalPrompt,
+    "",
+    "## Your Previous Answer",
+    "",
+    own,
+    "",
+    "## Other Models' Previous Answers",
+    "",
+    others || "_No other model produced an answer in the previous round._",
+    "",
+    "## Instructions",
+    "",
+    "Critique the other answers: point out errors, gaps and strong arguments.",
+    "Then give your revised answer in full. Change your position only where the other arguments convinced you, and say what changed and why.",
+  ].join("\n");
+}
+
+/**
+ * System prompt for reviewing one file's diff
+ */
+export const DIFF_REVIEW_SYSTEM_PROMPT = [
+  "You are a senior software engineer reviewing a pending change, one file at a time.",
+  "Review only what the diff changes; unchanged context lines are there to help you understand it.",
+  "Report bugs, regressions, security problems, missing error handling and unclear code, citing the changed lines.",
+  "Label each finding as blocking or suggestion and propose a concrete fix.",
+  "If the change looks correct, say so in one sentence instead of inventing issues.",
+].join(" ");
+
+/**
+ * Build the prompt asking for a review of one file's diff (or one part of it)
+ */
+export function buildDiffReviewPrompt(
+  filePath: string,
+  diff: string,
+  part?: string,
+): string {
+  const fence = codeFence(diff);
+
+  return [
+    `Review the following change to \`${filePath}\`${part ? ` (part ${part} of a large diff)` : ""}.`,
+    "",
+    `${fence}diff`,
+    diff,
+    fence,
+  ].join("\n");
+}
+
+/**
+ * Append instructions to answer with JSON matching a schema
+ * Used for models without native structured output
+ */
+export function buildSchemaInstructions(
+  prompt: string,
+  schema: Record<string, unknown>,
+): string {
+  return [
+    prompt,
+    "",
+    "## Response Format",
+    "",
+    "Respond with a single JSON value that conforms to the JSON Schema below. Output only the JSON, with no commentary or code fence.",
+    "",
+    "```json",
+    JSON.stringify(schema, null, 2),
+    "```",
+  ].join("\n");
+}
+
+/**
+ * Build the follow-up asking a model to fix an answer that failed validation
+ */
+export function buildSchemaRepairPrompt(errors: string[]): string {
+  return [
+    "Your previous answer does not conform to the required JSON Schema:",
+    "",
+    ...errors.map((error) => `- ${error}`),
+    "",
+    "Reply with the corrected JSON only.",
+  ].join("\n");
+}
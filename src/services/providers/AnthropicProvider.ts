@@ -0,0 +1,89 @@
+/**
+ * Anthropic provider
+ * Maps chat messages onto the Anthropic Messages API
+ */
+
+import type {
+  ConsultResult,
+  OpenRouterMessage,
+  ProviderCallOptions,
+} from "../../types/index.js";
+import { ProviderType } from "../../types/index.js";
+import { BaseProvider } from "./BaseProvider.js";
+
+const ANTHROPIC_VERSION = "2023-06-01";
+const DEFAULT_MAX_TOKENS = 4096;
+
+interface AnthropicResponse {
+  content: Array<{
+    type: string;
+    text?: string;
+  }>;
+  usage?: {
+    input_tokens?: number;
+    output_tokens?: number;
+  };
+}
+
+export class AnthropicProvider extends BaseProvider {
+  public readonly type = ProviderType.ANTHROPIC;
+  protected readonly displayName = "Anthropic";
+
+  /**
+   * Send a Messages API request
+   * System messages are lifted into the top-level `system` field and stop
+   * sequences are sent as `stop_sequences`.
+   * Responses are not streamed; chunk handlers are ignored. There is no native
+   * response schema, so these models should not declare structuredOutput.
+   */
+  public async complete(
+    model: string,
+    messages: OpenRouterMessage[],
+    options: ProviderCallOptions = {},
+  ): Promise<ConsultResult> {
+    const system = messages
+      .filter((m) => m.role === "system")
+      .map((m) => m.content)
+      .join("\n\n");
+    const conversation = messages
+      .filter((m) => m.role !== "system")
+      .map((m) => ({ role: m.role, content: m.content }));
+
+    const { max_tokens, temperature, top_p, stop } = options.parameters ?? {};
+
+    const data = await this.post<AnthropicResponse>(
+      "/messages",
+      {
+        model,
+        max_tokens: max_tokens ?? DEFAULT_MAX_TOKENS,
+        messages: conversation,
+        temperature,
+        top_p,
+        stop_sequences: stop,
+        ...(system ? { system } : {}),
+      },
+      {
+        "x-api-key": this.settings.apiKey || "",
+        "anthropic-version": ANTHROPIC_VERSION,
+      },
+      options.watchdog?.signal,
+    );
+
+    const text = data.content
+      .filter((block) => block.type === "text" && block.text)
+      .map((block) => block.text)
+      .join("");
+    const promptTokens = data.usage?.input_tokens;
+    const completionTokens = data.usage?.output_tokens;
+
+    return {
+      model,
+      response: text,
+      usage: {
+        prompt_tokens: promptTokens,
+        completion_tokens: completionTokens,
+        total_tokens: (promptTokens || 0) + (completionTokens || 0),
+      },
+    };
+  }
+}
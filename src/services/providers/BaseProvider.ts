@@ -0,0 +1,186 @@
+/**
+ * Base provider
+ * Shared HTTP transport and error normalization for provider backends
+ */
+
+import axios, { AxiosError } from "axios";
+import type { Readable } from "node:stream";
+import type {
+  IProvider,
+  ConsultResult,
+  OpenRouterMessage,
+  ProviderCallOptions,
+  ProviderSettings,
+  ProviderType,
+} from "../../types/index.js";
+import { ApiError } from "../../types/index.js";
+import { Config } from "../../config/Config.js";
+import { retryAfterFromHeaders } from "../../utils/RetryPolicy.js";
+
+export abstract class BaseProvider implements IProvider {
+  public abstract readonly type: ProviderType;
+  protected abstract readonly displayName: string;
+  protected readonly config: Config;
+
+  constructor(protected readonly settings: ProviderSettings) {
+    this.config = Config.getInstance();
+  }
+
+  /**
+   * Send a chat completion request and normalize the response
+   */
+  public abstract complete(
+    model: string,
+    messages: OpenRouterMessage[],
+    options?: ProviderCallOptions,
+  ): Promise<ConsultResult>;
+
+  /**
+   * POST a JSON body to the provider
+   */
+  protected async post<T>(
+    path: string,
+    body: unknown,
+    headers: Record<string, string> = {},
+    signal?: AbortSignal,
+  ): Promise<T> {
+    const url = this.buildUrl(path);
+
+    try {
+      if (this.config.verboseLogging) {
+        console.error(`[API] Making HTTP POST to ${url}`);
+      }
+
+      const response = await axios.post<T>(url, body, {
+        headers: {
+          "Content-Type": "application/json",
+          ...headers,
+        },
+        signal,
+      });
+
+      if (this.config.verboseLogging) {
+        console.error(`[API] HTTP ${response.status} ${response.statusText}`);
+      }
+
+      return response.data;
+    } catch (error) {
+      if (this.config.verboseLogging) {
+        console.error(`[API] HTTP request failed`);
+      }
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * POST a JSON body and return the raw response stream (for SSE)
+   */
+  protected async postStream(
+    path: string,
+    body: unknown,
+    headers: Record<string, string> = {},
+    signal?: AbortSignal,
+  ): Promise<Readable> {
+    const url = this.buildUrl(path);
+
+    try {
+      if (this.config.verboseLogging) {
+        console.error(`[API] Opening HTTP stream to ${url}`);
+      }
+
+      const response = await axios.post<Readable>(url, body, {
+        headers: {
+          "Content-Type": "application/json",
+          Accept: "text/event-stream",
+          ...headers,
+        },
+        responseType: "stream",
+        signal,
+      });
+
+      if (this.config.verboseLogging) {
+        console.error(`[API] HTTP ${response.status} ${response.statusText} (streaming)`);
+      }
+
+      return response.data;
+    } catch (error) {
+      if (this.config.verboseLogging) {
+        console.error(`[API] HTTP stream request failed`);
+      }
+      throw this.handleError(await this.bufferErrorBody(error));
+    }
+  }
+
+  /**
+   * Join the base URL and a request path
+   */
+  private buildUrl(path: string): string {
+    return `${this.settings.baseUrl.replace(/\/+$/, "")}${path}`;
+  }
+
+  /**
+   * Read a streamed error body so handleError can extract its message
+   */
+  private async bufferErrorBody(error: unknown): Promise<unknown> {
+    if (!axios.isAxiosError(error) || !error.response) {
+      return error;
+    }
+
+    const data = error.response.data as unknown;
+    if (!data || typeof (data as Readable).on !== "function") {
+      return error;
+    }
+
+    try {
+      let text = "";
+      for await (const chunk of data as Readable) {
+        text += chunk.toString();
+      }
+      error.response.data = JSON.parse(text);
+    } catch {
+      error.response.data = undefined;
+    }
+    return error;
+  }
+
+  /**
+   * Handle provider errors with proper error types
+   * Keeps the wait a rate-limited provider asks for, so retries can honor it.
+   */
+  protected handleError(error: unknown): ApiError {
+    if (error instanceof ApiError) {
+      return error;
+    }
+
+    if (axios.isAxiosError(error)) {
+      const axiosError = error as AxiosError<{
+        error?: string | { message?: string };
+      }>;
+      const errorBody = axiosError.response?.data?.error;
+      const message =
+        (typeof errorBody === "string" ? errorBody : errorBody?.message) ||
+        axiosError.message ||
+        "Unknown API error";
+      const statusCode = axiosError.response?.status;
+
+      return new ApiError(
+        `${this.displayName} API error: ${message}`,
+        statusCode,
+        axiosError,
+        retryAfterFromHeaders(
+          axiosError.response?.headers as Record<string, unknown> | undefined,
+        ),
+      );
+    }
+
+    if (error instanceof Error) {
+      return new ApiError(
+        `${this.displayName} error: ${error.message}`,
+        undefined,
+        error,
+      );
+    }
+
+    return new ApiError(`Unknown ${this.displayName} error occurred`);
+  }
+}
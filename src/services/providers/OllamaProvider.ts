@@ -0,0 +1,66 @@
+/**
+ * Ollama provider
+ * Talks to a local Ollama server through its native chat API
+ */
+
+import type {
+  ConsultResult,
+  OpenRouterMessage,
+  ProviderCallOptions,
+} from "../../types/index.js";
+import { ProviderType } from "../../types/index.js";
+import { BaseProvider } from "./BaseProvider.js";
+
+interface OllamaChatResponse {
+  message: {
+    role: string;
+    content: string;
+  };
+  prompt_eval_count?: number;
+  eval_count?: number;
+}
+
+export class OllamaProvider extends BaseProvider {
+  public readonly type = ProviderType.OLLAMA;
+  protected readonly displayName = "Ollama";
+
+  /**
+   * Send a non-streaming chat request
+   * Chunk handlers are ignored; the full reply is returned at once.
+   * Generation parameters go in `options`, with max_tokens as `num_predict`;
+   * a response schema is sent as `format`.
+   */
+  public async complete(
+    model: string,
+    messages: OpenRouterMessage[],
+    options: ProviderCallOptions = {},
+  ): Promise<ConsultResult> {
+    const { max_tokens, temperature, top_p, stop, seed } = options.parameters ?? {};
+
+    const data = await this.post<OllamaChatResponse>(
+      "/api/chat",
+      {
+        model,
+        messages,
+        stream: false,
+        options: { num_predict: max_tokens, temperature, top_p, stop, seed },
+        format: options.responseSchema,
+      },
+      {},
+      options.watchdog?.signal,
+    );
+
+    const promptTokens = data.prompt_eval_count;
+    const completionTokens = data.eval_count;
+
+    return {
+      model,
+      response: data.message?.content ?? "",
+      usage: {
+        prompt_tokens: promptTokens,
+        completion_tokens: completionTokens,
+        total_tokens: (promptTokens || 0) + (completionTokens || 0),
+      },
+    };
+  }
+}
@@ -0,0 +1,158 @@
+/**
+ * OpenAI-compatible provider
+ * Talks to any endpoint implementing the OpenAI chat completions API
+ */
+
+import type {
+  ConsultResult,
+  GenerationParameters,
+  OpenRouterMessage,
+  OpenRouterResponse,
+  OpenRouterStreamChunk,
+  ProviderCallOptions,
+  StreamChunkHandler,
+  TokenUsage,
+} from "../../types/index.js";
+import { ApiError, ProviderType } from "../../types/index.js";
+import { readSseData } from "../../utils/SseReader.js";
+import { BaseProvider } from "./BaseProvider.js";
+
+export class OpenAICompatibleProvider extends BaseProvider {
+  public readonly type: ProviderType = ProviderType.OPENAI_COMPATIBLE;
+  protected readonly displayName: string = "OpenAI-compatible";
+
+  /**
+   * Send a chat completion request
+   * Streams over SSE when a chunk handler is supplied
+   */
+  public async complete(
+    model: string,
+    messages: OpenRouterMessage[],
+    options: ProviderCallOptions = {},
+  ): Promise<ConsultResult> {
+    if (options.onChunk) {
+      return this.completeStreaming(model, messages, options.onChunk, options);
+    }
+
+    const data = await this.post<OpenRouterResponse>(
+      "/chat/completions",
+      {
+        model,
+        messages,
+        ...this.buildParameters(options.parameters),
+        ...this.buildResponseFormat(options.responseSchema),
+      },
+      this.getHeaders(),
+      options.watchdog?.signal,
+    );
+
+    const content = data.choices?.[0]?.message?.content;
+    if (content === undefined || content === null) {
+      throw new ApiError(`${this.displayName} API error: response contained no choices`);
+    }
+
+    return {
+      model,
+      response: content,
+      usage: data.usage || {},
+    };
+  }
+
+  /**
+   * Stream a chat completion, forwarding each content delta
+   * Usage arrives in the final chunk
+   */
+  private async completeStreaming(
+    model: string,
+    messages: OpenRouterMessage[],
+    onChunk: StreamChunkHandler,
+    options: ProviderCallOptions,
+  ): Promise<ConsultResult> {
+    const stream = await this.postStream(
+      "/chat/completions",
+      {
+        model,
+        messages,
+        ...this.buildParameters(options.parameters),
+        ...this.buildResponseFormat(options.responseSchema),
+        stream: true,
+        stream_options: { include_usage: true },
+      },
+      this.getHeaders(),
+      options.watchdog?.signal,
+    );
+
+    let content = "";
+    let usage: TokenUsage = {};
+
+    try {
+      for await (const data of readSseData(stream, () => options.watchdog?.touch())) {
+        if (data === "[DONE]") {
+          break;
+        }
+
+        const chunk = JSON.parse(data) as OpenRouterStreamChunk;
+        if (chunk.error) {
+          throw new ApiError(
+            `${this.displayName} API error: ${chunk.error.message || "stream error"}`,
+            chunk.error.code,
+          );
+        }
+
+        const delta = chunk.choices?.[0]?.delta?.content;
+        if (delta) {
+          content += delta;
+          onChunk(delta, content);
+        }
+
+        if (chunk.usage) {
+          usage = chunk.usage;
+        }
+      }
+    } catch (error) {
+      throw this.handleError(error);
+    } finally {
+      stream.destroy();
+    }
+
+    return {
+      model,
+      response: content,
+      usage,
+    };
+  }
+
+  /**
+   * Map generation parameters onto request body fields
+   */
+  protected buildParameters(
+    parameters: GenerationParameters = {},
+  ): Record<string, unknown> {
+    return { ...parameters };
+  }
+
+  /**
+   * Request a JSON Schema response format
+   */
+  private buildResponseFormat(
+    schema: Record<string, unknown> | undefined,
+  ): Record<string, unknown> {
+    return schema
+      ? {
+          response_format: {
+            type: "json_schema",
+            json_schema: { name: "response", schema },
+          },
+        }
+      : {};
+  }
+
+  /**
+   * Build request headers
+   */
+  protected getHeaders(): Record<string, string> {
+    return this.settings.apiKey
+      ? { Authorization: `Bearer ${this.settings.apiKey}` }
+      : {};
+  }
+}
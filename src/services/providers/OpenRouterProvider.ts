@@ -0,0 +1,43 @@
+/**
+ * OpenRouter provider
+ * OpenAI-compatible endpoint with OpenRouter attribution headers
+ */
+
+import type { GenerationParameters } from "../../types/index.js";
+import { ProviderType } from "../../types/index.js";
+import { OpenAICompatibleProvider } from "./OpenAICompatibleProvider.js";
+
+export const OPENROUTER_BASE_URL = "https://openrouter.ai/api/v1";
+
+export class OpenRouterProvider extends OpenAICompatibleProvider {
+  public readonly type: ProviderType = ProviderType.OPENROUTER;
+  protected readonly displayName: string = "OpenRouter";
+
+  constructor(apiKey: string) {
+    super({ baseUrl: OPENROUTER_BASE_URL, apiKey });
+  }
+
+  /**
+   * Map generation parameters onto request body fields
+   * OpenRouter takes reasoning effort as a nested `reasoning` object.
+   */
+  protected buildParameters(
+    parameters: GenerationParameters = {},
+  ): Record<string, unknown> {
+    const { reasoning_effort, ...rest } = parameters;
+    return {
+      ...rest,
+      ...(reasoning_effort ? { reasoning: { effort: reasoning_effort } } : {}),
+    };
+  }
+
+  /**
+   * Build request headers
+   */
+  protected getHeaders(): Record<string, string> {
+    return {
+      ...super.getHeaders(),
+      "X-Title": "AI Consultant MCP",
+    };
+  }
+}
@@ -0,0 +1,151 @@
+/**
+ * Provider registry
+ * Builds the configured provider backends and resolves them by type, or by
+ * a model entry that names its own endpoint
+ */
+
+import type { IProvider, ModelConfig, ProviderSettings } from "../../types/index.js";
+import { ApiError, ProviderType } from "../../types/index.js";
+import type { Config } from "../../config/Config.js";
+import { OpenRouterProvider } from "./OpenRouterProvider.js";
+import { OpenAICompatibleProvider } from "./OpenAICompatibleProvider.js";
+import { AnthropicProvider } from "./AnthropicProvider.js";
+import { OllamaProvider } from "./OllamaProvider.js";
+
+export class ProviderRegistry {
+  private readonly providers: Map<ProviderType, IProvider>;
+  private readonly endpoints: Map<string, IProvider>; // Keyed by type, base URL and key variable
+
+  constructor(private readonly config: Config) {
+    this.providers = new Map();
+    this.endpoints = new Map();
+
+    this.register(new OpenRouterProvider(config.openRouterApiKey));
+
+    if (config.openAiCompatibleBaseUrl) {
+      this.register(
+        new OpenAICompatibleProvider({
+          baseUrl: config.openAiCompatibleBaseUrl,
+          apiKey: config.openAiCompatibleApiKey,
+        }),
+      );
+    }
+
+    if (config.anthropicApiKey) {
+      this.register(
+        new AnthropicProvider({
+          baseUrl: config.anthropicBaseUrl,
+          apiKey: config.anthropicApiKey,
+        }),
+      );
+    }
+
+    this.register(new OllamaProvider({ baseUrl: config.ollamaBaseUrl }));
+  }
+
+  /**
+   * Register (or replace) a provider backend
+   */
+  public register(provider: IProvider): void {
+    this.providers.set(provider.type, provider);
+  }
+
+  /**
+   * Get provider by type
+   * Throws ApiError if the provider has not been configured
+   */
+  public get(type: ProviderType): IProvider {
+    const provider = this.providers.get(type);
+    if (!provider) {
+      throw new ApiError(
+        `Provider "${type}" is not configured. Check the provider environment variables.`,
+      );
+    }
+    return provider;
+  }
+
+  /**
+   * Get the provider for a model
+   * Entries with their own baseUrl or apiKeyEnv get a provider for that
+   * endpoint, shared by every model naming the same one.
+   */
+  public forModel(type: ProviderType, model?: ModelConfig): IProvider {
+    if (!model?.baseUrl && !model?.apiKeyEnv) {
+      return this.get(type);
+    }
+
+    const key = `${type} ${model.baseUrl ?? ""} ${model.apiKeyEnv ?? ""}`;
+    let provider = this.endpoints.get(key);
+    if (!provider) {
+      provider = this.createProvider(type, {
+        baseUrl: model.baseUrl ?? this.defaultBaseUrl(type),
+        apiKey: model.apiKeyEnv ? this.readApiKey(model.apiKeyEnv) : this.defaultApiKey(type),
+      });
+      this.endpoints.set(key, provider);
+    }
+    return provider;
+  }
+
+  /**
+   * Build a provider of a type for an endpoint
+   */
+  private createProvider(type: ProviderType, settings: ProviderSettings): IProvider {
+    switch (type) {
+      case ProviderType.OPENAI_COMPATIBLE:
+        return new OpenAICompatibleProvider(settings);
+      case ProviderType.ANTHROPIC:
+        return new AnthropicProvider(settings);
+      case ProviderType.OLLAMA:
+        return new OllamaProvider(settings);
+      default:
+        throw new ApiError(`Provider "${type}" does not support a per-model endpoint`);
+    }
+  }
+
+  /**
+   * The base URL configured for a provider type, for entries that only set apiKeyEnv
+   */
+  private defaultBaseUrl(type: ProviderType): string {
+    const baseUrl =
+      type === ProviderType.OPENAI_COMPATIBLE
+        ? this.config.openAiCompatibleBaseUrl
+        : type === ProviderType.ANTHROPIC
+          ? this.config.anthropicBaseUrl
+          : this.config.ollamaBaseUrl;
+    if (!baseUrl) {
+      throw new ApiError(
+        `Provider "${type}" has no base URL. Set baseUrl on the model or OPENAI_COMPATIBLE_BASE_URL.`,
+      );
+    }
+    return baseUrl;
+  }
+
+  /**
+   * The API key configured for a provider type
+   */
+  private defaultApiKey(type: ProviderType): string | undefined {
+    return type === ProviderType.OPENAI_COMPATIBLE
+      ? this.config.openAiCompatibleApiKey
+      : type === ProviderType.ANTHROPIC
+        ? this.config.anthropicApiKey
+        : undefined;
+  }
+
+  /**
+   * Read a model's API key from the environment variable it names
+   */
+  private readApiKey(name: string): string {
+    const apiKey = process.env[name];
+    if (!apiKey) {
+      throw new ApiError(`Environment variable ${name} (the model's apiKeyEnv) is not set`);
+    }
+    return apiKey;
+  }
+
+  /**
+   * Get all configured provider types
+   */
+  public getConfiguredTypes(): ProviderType[] {
+    return Array.from(this.providers.keys());
+  }
+}
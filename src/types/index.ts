@@ -6,21 +6,163 @@
 // Model Types
 // ============================================================================
 
-export enum ModelType {
-  GEMINI_2_5_PRO = "gemini-2.5-pro",
-  GPT_5_CODEX = "gpt-5-codex",
-  GROK_CODE_FAST_1 = "grok-code-fast-1",
-}
-
 export interface ModelConfig {
-  readonly id: string;
+  readonly id: string; // Model ID sent to the provider
+  readonly aliases?: readonly string[]; // Alternative short names
   readonly description: string;
   readonly bestFor: readonly string[];
+  readonly provider?: ProviderType; // Defaults to OpenRouter
+  readonly baseUrl?: string; // Endpoint overriding the provider's configured base URL
+  readonly apiKeyEnv?: string; // Environment variable holding the key for that endpoint
+  readonly contextLength?: number; // Context window in tokens
+  readonly pricing?: ModelPricing;
+  readonly capabilities?: ModelCapabilities;
+  readonly defaults?: GenerationParameters; // Applied unless the request overrides them
+  readonly fallbacks?: readonly string[]; // Models tried in order when this one fails
+  readonly circuitBreaker?: CircuitBreakerSettings; // Overrides the global breaker settings
+}
+
+export interface ModelPricing {
+  readonly prompt: number; // USD per million prompt tokens
+  readonly completion: number; // USD per million completion tokens
+}
+
+export interface ModelCapabilities {
+  readonly streaming?: boolean; // Defaults to true
+  readonly structuredOutput?: boolean; // Accepts a JSON Schema response_format
+  readonly reasoning?: boolean; // Accepts a reasoning effort setting
+  readonly inputModalities?: readonly string[]; // e.g. ["text", "image"]
+  readonly parameters?: readonly GenerationParameterName[]; // Accepted generation parameters; all when unset
+}
+
+/**
+ * Sampling and generation parameters, named as in consult_ai
+ */
+export interface GenerationParameters {
+  temperature?: number;
+  max_tokens?: number;
+  top_p?: number;
+  stop?: string[];
+  seed?: number;
+  reasoning_effort?: ReasoningEffort;
+}
+
+export type GenerationParameterName = keyof GenerationParameters;
+
+export type ReasoningEffort = "low" | "medium" | "high";
+
+/**
+ * Models keyed by short name (e.g. "gpt-5-codex")
+ */
+export type AvailableModels = Readonly<Record<string, ModelConfig>>;
+
+export interface ModelRegistry {
+  readonly models: AvailableModels;
+  readonly defaultModel: string; // Short name used when auto-selection finds no match
+}
+
+// ============================================================================
+// Persona Types
+// ============================================================================
+
+export interface Persona {
+  description: string;
+  systemPrompt: string;
 }
 
-export type AvailableModels = {
-  readonly [key in ModelType]: ModelConfig;
-};
+export type PersonaRegistry = Readonly<Record<string, Persona>>;
+
+// ============================================================================
+// Prompt Template Types
+// ============================================================================
+
+export interface PromptTemplateArgument {
+  name: string;
+  description?: string;
+  required?: boolean;
+}
+
+export interface PromptTemplate {
+  description: string;
+  arguments: PromptTemplateArgument[];
+  template: string; // Text with {{argument}} placeholders
+  models?: string[]; // Preferred models, consulted together when several are given
+  persona?: string;
+}
+
+export type PromptTemplateLibrary = Readonly<Record<string, PromptTemplate>>;
+
+export interface RenderedPrompt {
+  prompt: string;
+  models?: string[];
+  persona?: string;
+}
+
+// ============================================================================
+// Model Catalog Types
+// ============================================================================
+
+export interface OpenRouterCatalogModel {
+  id: string;
+  name?: string;
+  description?: string;
+  context_length?: number | null;
+  pricing?: {
+    prompt?: string; // USD per token
+    completion?: string; // USD per token
+  };
+  architecture?: {
+    input_modalities?: string[];
+    output_modalities?: string[];
+  };
+  supported_parameters?: string[];
+}
+
+export interface ModelCatalogSnapshot {
+  fetchedAt: number; // Epoch ms
+  models: OpenRouterCatalogModel[];
+}
+
+export interface CatalogSyncResult {
+  fetched_at: string;
+  catalog_size: number;
+  models: string[];
+  added: string[];
+  removed: string[];
+  changed: boolean;
+}
+
+// ============================================================================
+// Provider Types
+// ============================================================================
+
+export enum ProviderType {
+  OPENROUTER = "openrouter",
+  OPENAI_COMPATIBLE = "openai-compatible",
+  ANTHROPIC = "anthropic",
+  OLLAMA = "ollama",
+}
+
+export interface ProviderSettings {
+  baseUrl: string;
+  apiKey?: string;
+}
+
+export interface ProviderCallOptions {
+  watchdog?: CallWatchdog;
+  parameters?: GenerationParameters;
+  responseSchema?: Record<string, unknown>; // Sent as a native structured-output format
+  onChunk?: StreamChunkHandler; // When set, the provider streams the completion
+}
+
+export interface IProvider {
+  readonly type: ProviderType;
+  complete(
+    model: string,
+    messages: OpenRouterMessage[],
+    options?: ProviderCallOptions,
+  ): Promise<ConsultResult>;
+}
 
 // ============================================================================
 // API Types
@@ -44,6 +186,19 @@ export interface OpenRouterResponse {
   };
 }
 
+export interface OpenRouterStreamChunk {
+  choices?: Array<{
+    delta?: {
+      content?: string | null;
+    };
+  }>;
+  usage?: TokenUsage;
+  error?: {
+    message?: string;
+    code?: number;
+  };
+}
+
 export interface TokenUsage {
   prompt_tokens?: number;
   completion_tokens?: number;
@@ -54,17 +209,66 @@ export interface ConsultResult {
   model: string;
   response: string;
   usage: TokenUsage;
+  cost_usd?: number; // Cost of the API calls behind this result
+  cache_match?: CacheMatch; // Set when answered from a near-duplicate prompt
+  attached_files?: AttachedFilesReport;
+  parsed?: unknown; // The answer's JSON value when it matches response_schema
+  structured_output?: StructuredOutputReport;
+  fallback?: FallbackReport; // Set when a fallback model answered
+  attempts?: number; // Upstream calls made, including retries
+  responses?: ModelResponse[]; // Per-model results for multi-model consultations
+  synthesis?: ModelResponse; // Consensus answer merged from `responses`
+  rounds?: DebateRound[]; // Per-round transcript for debates
+}
+
+// ============================================================================
+// Streaming & Progress Types
+// ============================================================================
+
+export type StreamChunkHandler = (delta: string, accumulated: string) => void;
+
+export interface ProgressUpdate {
+  progress: number;
+  total?: number;
+  message?: string;
+  delta?: boolean; // The message is streamed output continuing the previous one
+}
+
+export type ProgressHandler = (update: ProgressUpdate) => void;
+
+export interface ConsultContext {
+  onProgress?: ProgressHandler;
+  clientId?: string; // Rate limits are kept per client
 }
 
 // ============================================================================
 // Request/Response Types
 // ============================================================================
 
+export type MultiModelMode = "parallel" | "sequential";
+
 export interface ConsultArgs {
   prompt: string;
   model?: string;
-  models?: string[]; // For sequential multi-model consultation
+  models?: string[]; // For multi-model consultation
+  mode?: MultiModelMode;
+  model_timeout_ms?: number;
+  synthesize_with?: string; // Model that merges multi-model answers
+  debate_rounds?: number; // Rounds of mutual critique between `models`
   task_description?: string;
+  template?: string; // Prompt template rendered into the prompt
+  template_args?: Record<string, string>;
+  files?: string[]; // Paths or globs attached as context
+  persona?: string; // Named system-prompt preset
+  system_prompt?: string; // Free-form system message, appended to the persona's
+  temperature?: number;
+  max_tokens?: number;
+  top_p?: number;
+  stop?: string | string[];
+  seed?: number;
+  reasoning_effort?: ReasoningEffort;
+  response_schema?: Record<string, unknown>; // JSON Schema the answer must match
+  fallback?: boolean; // Walk the model's fallback chain on failure (default true)
   conversation_id?: string;
   clear_history?: boolean;
 }
@@ -73,8 +277,25 @@ export interface ConsultResponse {
   model_used: string;
   response: string;
   tokens_used: TokenUsage;
+  cost_usd: number;
   conversation_id: string | null;
   cached: boolean;
+  cache_match?: CacheMatch;
+  attached_files?: AttachedFilesReport;
+  parsed?: unknown;
+  structured_output?: StructuredOutputReport;
+  fallback?: FallbackReport;
+  attempts?: number;
+}
+
+export interface FallbackReport {
+  requested_model: string;
+  skipped: SkippedModel[]; // Models tried before the one that answered
+}
+
+export interface SkippedModel {
+  model: string;
+  reason: string;
 }
 
 export interface ModelResponse {
@@ -82,14 +303,177 @@ export interface ModelResponse {
   response: string;
   tokens_used: TokenUsage;
   cached: boolean;
+  latency_ms: number;
+  cost_usd: number;
+  cache_match?: CacheMatch;
+  parsed?: unknown;
+  structured_output?: StructuredOutputReport;
+  attempts?: number;
+  error?: string;
+}
+
+export interface DebateRound {
+  round: number;
+  responses: ModelResponse[];
 }
 
 export interface MultiModelConsultResponse {
   models_used: string[];
+  mode: MultiModelMode;
   responses: ModelResponse[];
   combined_response: string;
+  parsed?: unknown; // The synthesized answer's JSON value
+  synthesis?: ModelResponse;
+  rounds?: DebateRound[];
   total_tokens_used: TokenUsage;
+  total_cost_usd: number;
   conversation_id: string | null;
+  attached_files?: AttachedFilesReport;
+}
+
+// ============================================================================
+// Structured Output Types
+// ============================================================================
+
+// How the schema reached the model: native response_format or prompt instructions
+export type StructuredOutputMode = "response_format" | "prompt";
+
+export interface StructuredOutputReport {
+  valid: boolean;
+  mode: StructuredOutputMode;
+  attempts: number; // Model calls made, including repair requests
+  errors?: string[]; // Problems with the final answer when it is still invalid
+}
+
+export interface SchemaValidationResult {
+  valid: boolean;
+  value?: unknown;
+  errors: string[];
+}
+
+// ============================================================================
+// File Attachment Types
+// ============================================================================
+
+export interface AttachedFile {
+  path: string;
+  bytes: number;
+  estimated_tokens: number;
+}
+
+export interface SkippedFile {
+  path: string;
+  reason: string;
+}
+
+export interface AttachedFilesReport {
+  files: AttachedFile[];
+  skipped: SkippedFile[];
+  total_bytes: number;
+  estimated_tokens: number;
+}
+
+export interface FileAttachments {
+  context: string; // Fenced file blocks to prepend to the prompt
+  report: AttachedFilesReport;
+}
+
+export interface FileAttachmentOptions {
+  roots: string[]; // Only files below these directories may be read
+  maxFileBytes: number;
+  maxTotalBytes: number;
+}
+
+export interface IFileAttachmentLoader {
+  load(patterns: string[]): FileAttachments;
+}
+
+// ============================================================================
+// Diff Review Types
+// ============================================================================
+
+export type DiffSource = "staged" | "unstaged" | "range";
+
+export interface DiffRequest {
+  repoPath: string;
+  source: DiffSource;
+  refRange?: string; // e.g. "main...HEAD", required for the "range" source
+  paths?: string[]; // Optional pathspecs limiting the diff
+}
+
+export interface FileDiff {
+  path: string;
+  diff: string;
+  binary: boolean;
+}
+
+export interface IGitDiffReader {
+  readDiff(request: DiffRequest): Promise<FileDiff[]>;
+}
+
+export interface DiffReviewArgs {
+  repo_path?: string;
+  source?: DiffSource;
+  ref_range?: string;
+  paths?: string[];
+  model?: string;
+  system_prompt?: string; // Extra review instructions
+}
+
+export interface FileReview {
+  path: string;
+  part?: string; // "2/3" when a large file diff was split
+  model: string;
+  response: string;
+  tokens_used: TokenUsage;
+  cost_usd: number;
+  cached: boolean;
+  error?: string;
+}
+
+export interface DiffReviewResponse {
+  repo_path: string;
+  source: DiffSource;
+  ref_range?: string;
+  files_reviewed: number;
+  reviews: FileReview[];
+  skipped: SkippedFile[];
+  total_tokens_used: TokenUsage;
+  total_cost_usd: number;
+}
+
+// ============================================================================
+// Usage & Cost Types
+// ============================================================================
+
+export interface UsageTotals {
+  cost_usd: number;
+  prompt_tokens: number;
+  completion_tokens: number;
+  total_tokens: number;
+  requests: number;
+}
+
+export interface UsageSummary {
+  date: string; // UTC, YYYY-MM-DD
+  today: UsageTotals;
+  month: string; // UTC, YYYY-MM
+  this_month: UsageTotals;
+  limits: {
+    daily_usd: number | null;
+    monthly_usd: number | null;
+  };
+  conversation?: {
+    id: string;
+    totals: UsageTotals;
+  };
+}
+
+export interface IUsageTracker {
+  checkBudget(): void;
+  record(model: string, usage: TokenUsage, conversationId?: string): number;
+  getSummary(conversationId?: string): UsageSummary;
+  forgetConversations(conversationIds?: string[]): void; // All when no IDs are given
 }
 
 // ============================================================================
@@ -97,12 +481,22 @@ export interface MultiModelConsultResponse {
 // ============================================================================
 
 export interface RateLimitEntry {
-  count: number;
-  resetTime: number;
+  requests: number; // Requests left in the bucket, refilled continuously
+  tokens: number; // Tokens left in the bucket; negative after underestimated calls
+  updatedAt: number;
+}
+
+export interface RateLimitStatus {
+  requests_remaining: number;
+  requests_per_minute: number;
+  tokens_remaining?: number; // Omitted when tokens are not limited
+  tokens_per_minute?: number;
 }
 
 export interface IRateLimiter {
-  checkLimit(identifier: string): void;
+  acquire(identifier: string, estimatedTokens?: number): void;
+  settle(identifier: string, estimatedTokens: number, actualTokens: number): void;
+  getRemaining(identifier: string): RateLimitStatus;
   reset(identifier: string): void;
 }
 
@@ -112,10 +506,12 @@ export interface IRateLimiter {
 
 export interface ICache<T> {
   get(key: string): T | undefined;
+  peek(key: string): T | undefined; // Like get, without marking the entry as used
   set(key: string, value: T): void;
   has(key: string): boolean;
   delete(key: string): void;
   clear(): void;
+  keys(): string[]; // Least recently used first
 }
 
 export interface CacheOptions {
@@ -123,19 +519,118 @@ export interface CacheOptions {
   checkPeriod?: number; // Check period in seconds
 }
 
+export interface DiskCacheOptions {
+  directory: string;
+  ttl: number; // Time to live in seconds (0 = no expiry)
+  maxBytes: number; // Least recently used entries are evicted beyond this
+}
+
+export type CacheStoreType = "memory" | "disk";
+
+export interface CacheMatch {
+  prompt: string; // The cached prompt that was matched
+  similarity: number; // 0-1
+}
+
+export interface CacheLookupResult {
+  result: ConsultResult;
+  match?: CacheMatch; // Present only for near-duplicate hits
+}
+
+// A cached result with what the near-duplicate index needs to rebuild itself
+export interface CachedResponse {
+  result: ConsultResult;
+  prompt: string;
+  contextKey: string; // Cache key of everything but the prompt
+}
+
+export interface IResponseCache {
+  lookup(input: CacheKeyInput): CacheLookupResult | undefined;
+  store(input: CacheKeyInput, result: ConsultResult): void;
+}
+
+/**
+ * Everything that influences a consultation's answer
+ */
+export interface CacheKeyInput {
+  prompt: string;
+  model: string;
+  systemPrompt?: string;
+  parameters?: GenerationParameters;
+  responseSchema?: Record<string, unknown>;
+}
+
 // ============================================================================
 // History Types
 // ============================================================================
 
+// A stored message with the metadata recorded when it was added
+export interface ConversationMessage extends OpenRouterMessage {
+  timestamp?: number; // Epoch ms
+  model?: string; // Model that wrote an assistant message
+  models?: string[]; // Models behind a combined multi-model answer
+  usage?: TokenUsage;
+  cost_usd?: number;
+}
+
+export interface ConversationRecord {
+  id: string;
+  messages: ConversationMessage[];
+  systemPrompt?: string; // Applied to every turn of the thread
+  createdAt: number; // Epoch ms
+  updatedAt: number; // Epoch ms
+}
+
+export interface IConversationStore {
+  load(conversationId: string): ConversationRecord | undefined;
+  save(record: ConversationRecord): void;
+  delete(conversationId: string): void;
+  list(): string[];
+  clear(): void;
+}
+
+export type HistoryStoreType = "memory" | "file";
+
 export interface IHistoryManager {
   getHistory(conversationId: string): OpenRouterMessage[];
   updateHistory(
     conversationId: string,
-    userMessage: OpenRouterMessage,
-    assistantMessage: OpenRouterMessage,
+    userMessage: ConversationMessage,
+    assistantMessage: ConversationMessage,
   ): void;
   clearHistory(conversationId: string): void;
   hasHistory(conversationId: string): boolean;
+  getSystemPrompt(conversationId: string): string | undefined;
+  setSystemPrompt(conversationId: string, systemPrompt: string): void;
+  getConversation(conversationId: string): ConversationRecord | undefined;
+  getAllConversationIds(): string[];
+  forkConversation(
+    sourceId: string,
+    targetId: string,
+    turns: number,
+  ): ConversationRecord;
+  saveConversation(record: ConversationRecord): ConversationRecord;
+  clearAll(): void;
+}
+
+export interface ConversationSummary {
+  conversation_id: string;
+  turns: number;
+  messages: number;
+  models_used: string[];
+  created_at: string; // ISO 8601
+  last_activity: string; // ISO 8601
+  tokens_used: TokenUsage;
+  cost_usd: number;
+  system_prompt: boolean;
+}
+
+export type ConversationFormat = "markdown" | "json" | "jsonl";
+
+export interface ConversationImportOptions {
+  conversationId?: string; // Defaults to the ID stored in a JSON export
+  format?: Exclude<ConversationFormat, "markdown">; // Detected when omitted
+  overwrite?: boolean; // Replace an existing conversation with the same ID
 }
 
 // ============================================================================
@@ -149,24 +644,77 @@ export enum CircuitBreakerState {
 }
 
 export interface CircuitBreakerOptions {
-  timeout: number; // Request timeout in ms
+  timeout: number; // Inactivity timeout in ms, restarted by every streamed chunk
   errorThresholdPercentage: number; // 0-100
   resetTimeout: number; // Time before attempting to close circuit in ms
+  volumeThreshold?: number; // Calls needed in the rolling window before the circuit can open
+}
+
+export interface CallWatchdog {
+  touch(): void; // Signal activity, restarting the inactivity timeout
+  readonly signal: AbortSignal; // Aborted when the call times out
 }
 
+export type CircuitBreakerAction = (
+  watchdog: CallWatchdog,
+  ...args: unknown[]
+) => Promise<unknown>;
+
 export interface ICircuitBreaker {
   fire<T>(...args: unknown[]): Promise<T>;
   getState(): CircuitBreakerState;
 }
 
+// Breakers are kept per model ID, or per upstream provider
+export type CircuitBreakerScope = "model" | "provider";
+
+// Per-model breaker settings, named like the CIRCUIT_BREAKER_* variables
+export interface CircuitBreakerSettings {
+  readonly threshold?: number; // Failure ratio (0-1) that opens the circuit
+  readonly resetMs?: number; // Time before a test request is let through
+  readonly timeoutMs?: number; // Inactivity timeout for a call
+}
+
+export interface CircuitBreakerStatus {
+  key: string; // Model ID or provider name
+  state: CircuitBreakerState;
+  threshold: number;
+  reset_ms: number;
+  timeout_ms: number;
+  stats: {
+    calls: number;
+    successes: number;
+    failures: number; // Including inactivity timeouts
+    rejects: number; // Calls refused while the circuit was open
+  };
+}
+
+export interface ICircuitBreakerRegistry {
+  forModel(modelId: string): ICircuitBreaker;
+  isOpen(modelId: string): boolean;
+  getStatus(): CircuitBreakerStatus[];
+}
+
 // ============================================================================
 // Retry Types
 // ============================================================================
 
 export interface RetryOptions {
-  retries: number;
-  retryDelay?: (retryCount: number) => number;
-  retryCondition?: (error: Error) => boolean;
+  retries: number; // Retries after the first attempt
+  baseDelayMs: number; // Backoff before the first retry, doubled for each later one
+  maxTotalMs: number; // No retry is started that would end past this much time per request
+}
+
+export interface RetryResult<T> {
+  value: T;
+  attempts: number; // Upstream calls made, including the successful one
+}
+
+export interface IRetryPolicy {
+  execute<T>(
+    action: (attempt: number) => Promise<T>,
+    canRetry?: (error: unknown) => boolean,
+  ): Promise<RetryResult<T>>;
 }
 
 // ============================================================================
@@ -175,20 +723,36 @@ export interface RetryOptions {
 
 export interface IModelSelector {
   selectModel(taskDescription: string): ModelConfig;
+  getModelNames(): string[];
   getModelById(modelId: string): ModelConfig | undefined;
+  resolveModel(modelId: string): ModelConfig | undefined;
   getAllModels(): AvailableModels;
+  setModels(models: AvailableModels): void;
+  getProviderForModel(modelId: string): ProviderType;
 }
 
 // ============================================================================
 // API Client Types
 // ============================================================================
 
+export interface ApiCallOptions {
+  onChunk?: StreamChunkHandler;
+  systemPrompt?: string; // Sent as the leading system message
+  parameters?: GenerationParameters;
+  responseSchema?: Record<string, unknown>; // Only for models with structuredOutput
+  onRetry?: (attempt: number) => void; // Runs before each retry; throwing stops retrying
+  signal?: AbortSignal; // Aborting cancels the upstream request and any retries
+}
+
 export interface IApiClient {
   consultAI(
     prompt: string,
     model: string,
     conversationHistory: OpenRouterMessage[],
+    options?: ApiCallOptions,
   ): Promise<ConsultResult>;
+  isCircuitOpen(model: string): boolean;
+  getCircuitBreakerStatus(): CircuitBreakerStatus[];
 }
 
 // ============================================================================
@@ -206,16 +770,121 @@ export class RateLimitError extends Error {
   }
 }
 
+export class BudgetExceededError extends Error {
+  constructor(
+    message: string,
+    public readonly spentUsd: number,
+    public readonly limitUsd: number,
+  ) {
+    super(message);
+    this.name = "BudgetExceededError";
+    Object.setPrototypeOf(this, BudgetExceededError.prototype);
+  }
+}
+
+export class ModelRegistryError extends Error {
+  constructor(
+    message: string,
+    public readonly filePath: string,
+    public readonly problems: string[] = [],
+  ) {
+    super(message);
+    this.name = "ModelRegistryError";
+    Object.setPrototypeOf(this, ModelRegistryError.prototype);
+  }
+}
+
+export class PersonaConfigError extends Error {
+  constructor(
+    message: string,
+    public readonly filePath: string,
+    public readonly problems: string[] = [],
+  ) {
+    super(message);
+    this.name = "PersonaConfigError";
+    Object.setPrototypeOf(this, PersonaConfigError.prototype);
+  }
+}
+
+export class PromptTemplateError extends Error {
+  constructor(
+    message: string,
+    public readonly problems: string[] = [],
+  ) {
+    super(message);
+    this.name = "PromptTemplateError";
+    Object.setPrototypeOf(this, PromptTemplateError.prototype);
+  }
+}
+
+export class InvalidParametersError extends Error {
+  constructor(
+    message: string,
+    public readonly problems: string[] = [],
+  ) {
+    super(message);
+    this.name = "InvalidParametersError";
+    Object.setPrototypeOf(this, InvalidParametersError.prototype);
+  }
+}
+
+export class FileAccessError extends Error {
+  constructor(
+    message: string,
+    public readonly filePath: string,
+  ) {
+    super(message);
+    this.name = "FileAccessError";
+    Object.setPrototypeOf(this, FileAccessError.prototype);
+  }
+}
+
+export class GitError extends Error {
+  constructor(
+    message: string,
+    public readonly exitCode?: number,
+  ) {
+    super(message);
+    this.name = "GitError";
+    Object.setPrototypeOf(this, GitError.prototype);
+  }
+}
+
 export class ApiError extends Error {
   constructor(
     message: string,
     public readonly statusCode?: number,
     public readonly originalError?: Error,
+    public readonly retryAfterMs?: number, // From Retry-After or rate-limit reset headers
   ) {
     super(message);
     this.name = "ApiError";
     Object.setPrototypeOf(this, ApiError.prototype);
   }
+
+  /**
+   * Whether the request may succeed when repeated or sent elsewhere:
+   * network failures, timeouts, rate limits and server errors
+   */
+  public get retryable(): boolean {
+    return (
+      this.statusCode === undefined ||
+      this.statusCode === 408 ||
+      this.statusCode === 429 ||
+      this.statusCode >= 500
+    );
+  }
+}
+
+export class TimeoutError extends Error {
+  constructor(
+    message: string,
+    public readonly timeoutMs: number,
+  ) {
+    super(message);
+    this.name = "TimeoutError";
+    Object.setPrototypeOf(this, TimeoutError.prototype);
+  }
 }
 
 export class CircuitBreakerError extends Error {
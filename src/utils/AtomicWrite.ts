@@ -0,0 +1,29 @@
+/**
+ * Atomic file writes
+ * Writes to a temporary file and renames it over the target,
+ * so readers never observe a partially written file
+ */
+
+import fs from "node:fs";
+import { randomUUID } from "node:crypto";
+
+/**
+ * Atomically replace `filePath` with `data`
+ */
+export function writeFileAtomicSync(filePath: string, data: string): void {
+  const tempPath = `${filePath}.${randomUUID()}.tmp`;
+
+  try {
+    const fd = fs.openSync(tempPath, "w");
+    try {
+      fs.writeSync(fd, data);
+      fs.fsyncSync(fd);
+    } finally {
+      fs.closeSync(fd);
+    }
+    fs.renameSync(tempPath, filePath);
+  } catch (error) {
+    fs.rmSync(tempPath, { force: true });
+    throw error;
+  }
+}
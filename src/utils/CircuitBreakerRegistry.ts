@@ -0,0 +1,103 @@
+/**
+ * Circuit breaker registry
+ * Keeps one circuit breaker per model or per upstream provider, so one failing
+ * backend does not cut off the others
+ */
+
+import type {
+  CircuitBreakerAction,
+  CircuitBreakerOptions,
+  CircuitBreakerScope,
+  CircuitBreakerStatus,
+  ICircuitBreaker,
+  ICircuitBreakerRegistry,
+  IModelSelector,
+} from "../types/index.js";
+import { CircuitBreakerState, ProviderType } from "../types/index.js";
+import { CircuitBreakerWrapper } from "./CircuitBreakerWrapper.js";
+
+export class CircuitBreakerRegistry implements ICircuitBreakerRegistry {
+  private readonly breakers: Map<string, CircuitBreakerWrapper>;
+
+  constructor(
+    private readonly action: CircuitBreakerAction,
+    private readonly defaults: CircuitBreakerOptions,
+    private readonly modelSelector: IModelSelector,
+    private readonly scope: CircuitBreakerScope = "model",
+  ) {
+    this.breakers = new Map();
+  }
+
+  /**
+   * Get the breaker guarding a model, creating it on first use
+   * Per-model settings from the registry apply only in model scope.
+   */
+  public forModel(modelId: string): ICircuitBreaker {
+    const key = this.keyFor(modelId);
+    let breaker = this.breakers.get(key);
+
+    if (!breaker) {
+      const settings =
+        this.scope === "model"
+          ? this.modelSelector.resolveModel(modelId)?.circuitBreaker
+          : undefined;
+      breaker = new CircuitBreakerWrapper(
+        this.action,
+        {
+          timeout: settings?.timeoutMs ?? this.defaults.timeout,
+          errorThresholdPercentage:
+            settings?.threshold !== undefined
+              ? settings.threshold * 100
+              : this.defaults.errorThresholdPercentage,
+          resetTimeout: settings?.resetMs ?? this.defaults.resetTimeout,
+          volumeThreshold: this.defaults.volumeThreshold,
+        },
+        key,
+      );
+      this.breakers.set(key, breaker);
+    }
+
+    return breaker;
+  }
+
+  /**
+   * Whether calls to a model are currently refused
+   * Models without a breaker yet have never failed.
+   */
+  public isOpen(modelId: string): boolean {
+    return (
+      this.breakers.get(this.keyFor(modelId))?.getState() ===
+      CircuitBreakerState.OPEN
+    );
+  }
+
+  /**
+   * Get the status of every breaker created so far
+   */
+  public getStatus(): CircuitBreakerStatus[] {
+    return Array.from(this.breakers.values(), (breaker) => breaker.getStatus()).sort(
+      (a, b) => (a.key < b.key ? -1 : a.key > b.key ? 1 : 0),
+    );
+  }
+
+  /**
+   * Breaker key for a model: its ID, or its upstream provider
+   * OpenRouter models are grouped by the vendor prefix of their ID (e.g. "x-ai"),
+   * and models with their own endpoint by its base URL.
+   */
+  private keyFor(modelId: string): string {
+    const model = this.modelSelector.resolveModel(modelId);
+    const id = model?.id ?? modelId;
+    if (this.scope === "model") {
+      return id;
+    }
+
+    const provider = model?.provider ?? ProviderType.OPENROUTER;
+    if (model?.baseUrl) {
+      return `${provider} ${model.baseUrl}`;
+    }
+    return provider === ProviderType.OPENROUTER && id.includes("/")
+      ? id.slice(0, id.indexOf("/"))
+      : provider;
+  }
+}
@@ -6,31 +6,101 @@
 import CircuitBreaker from "opossum";
 import type {
   ICircuitBreaker,
+  CircuitBreakerAction,
   CircuitBreakerOptions,
+  CircuitBreakerStatus,
 } from "../types/index.js";
-import { CircuitBreakerState } from "../types/index.js";
+import {
+  CircuitBreakerError,
+  CircuitBreakerState,
+  TimeoutError,
+} from "../types/index.js";
+import { isRetryableError } from "./RetryPolicy.js";
 
 export class CircuitBreakerWrapper implements ICircuitBreaker {
   private breaker: CircuitBreaker;
+  private readonly timeout: number;
 
   constructor(
-    action: (...args: unknown[]) => Promise<unknown>,
-    options: CircuitBreakerOptions,
+    action: CircuitBreakerAction,
+    private readonly options: CircuitBreakerOptions,
+    private readonly name: string = "API",
   ) {
-    this.breaker = new CircuitBreaker(action, {
-      timeout: options.timeout,
-      errorThresholdPercentage: options.errorThresholdPercentage,
-      resetTimeout: options.resetTimeout,
-    });
+    this.timeout = options.timeout;
+
+    // opossum's own timeout covers the whole call; we use an inactivity
+    // watchdog instead so streamed responses time out per chunk
+    this.breaker = new CircuitBreaker(
+      (...args: unknown[]) => this.runWithWatchdog(action, args),
+      {
+        timeout: false,
+        errorThresholdPercentage: options.errorThresholdPercentage,
+        resetTimeout: options.resetTimeout,
+        volumeThreshold: options.volumeThreshold,
+        // Rejected requests (400, 401, 404, 422, bad parameters) say nothing
+        // about the model's health, so they never count towards opening the circuit
+        errorFilter: (error: unknown) => !isRetryableError(error),
+      },
+    );
 
     this.setupEventListeners();
   }
 
   /**
    * Execute function through circuit breaker
+   * Calls rejected because the circuit is open fail with CircuitBreakerError.
    */
   public async fire<T>(...args: unknown[]): Promise<T> {
-    return this.breaker.fire(...args) as Promise<T>;
+    try {
+      return (await this.breaker.fire(...args)) as T;
+    } catch (error) {
+      if ((error as { code?: string }).code === "EOPENBREAKER") {
+        throw new CircuitBreakerError(
+          `Circuit breaker for ${this.name} is open after repeated failures; failing fast`,
+        );
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Run the action with an inactivity timeout
+   * The action receives a watchdog it can touch to restart the timer
+   */
+  private runWithWatchdog(
+    action: CircuitBreakerAction,
+    args: unknown[],
+  ): Promise<unknown> {
+    const controller = new AbortController();
+
+    return new Promise((resolve, reject) => {
+      let settled = false;
+      let timer: NodeJS.Timeout | undefined;
+
+      const touch = () => {
+        if (settled) {
+          return;
+        }
+        clearTimeout(timer);
+        timer = setTimeout(() => {
+          settled = true;
+          const error = new TimeoutError(
+            `Timed out after ${this.timeout}ms without a response`,
+            this.timeout,
+          );
+          reject(error);
+          controller.abort(error);
+        }, this.timeout);
+      };
+
+      touch();
+      action({ touch, signal: controller.signal }, ...args)
+        .then(resolve, reject)
+        .finally(() => {
+          settled = true;
+          clearTimeout(timer);
+        });
+    });
   }
 
   /**
@@ -48,26 +118,27 @@ export class CircuitBreakerWrapper implements ICircuitBreaker {
 
   /**
    * Setup event listeners for logging
+   * Everything goes to stderr: stdout carries the MCP protocol.
    */
   private setupEventListeners(): void {
     this.breaker.on("open", () => {
       console.error(
-        "Circuit breaker opened - too many failures detected. Requests will fail fast.",
+        `Circuit breaker for ${this.name} opened - too many failures detected. Requests will fail fast.`,
       );
     });
 
     this.breaker.on("halfOpen", () => {
-      console.warn(
-        "Circuit breaker half-open - testing if service has recovered.",
+      console.error(
+        `Circuit breaker for ${this.name} half-open - testing if service has recovered.`,
       );
     });
 
     this.breaker.on("close", () => {
-      console.log("Circuit breaker closed - service has recovered.");
+      console.error(`Circuit breaker for ${this.name} closed - service has recovered.`);
     });
 
     this.breaker.on("fallback", () => {
-      console.warn("Circuit breaker fallback triggered.");
+      console.error(`Circuit breaker for ${this.name} fallback triggered.`);
     });
   }
 
@@ -78,6 +149,26 @@ export class CircuitBreakerWrapper implements ICircuitBreaker {
     return this.breaker.stats;
   }
 
+  /**
+   * Get the state, settings and call counts of the breaker
+   */
+  public getStatus(): CircuitBreakerStatus {
+    const stats = this.breaker.stats;
+    return {
+      key: this.name,
+      state: this.getState(),
+      threshold: this.options.errorThresholdPercentage / 100,
+      reset_ms: this.options.resetTimeout,
+      timeout_ms: this.options.timeout,
+      stats: {
+        calls: stats.fires,
+        successes: stats.successes,
+        failures: stats.failures,
+        rejects: stats.rejects,
+      },
+    };
+  }
+
   /**
    * Manually open the circuit
    */
@@ -92,4 +183,3 @@ export class CircuitBreakerWrapper implements ICircuitBreaker {
     this.breaker.close();
   }
 }
-
@@ -0,0 +1,15 @@
+/**
+ * Code fence helpers
+ * Builds markdown fences that arbitrary content cannot close early
+ */
+
+/**
+ * Get a backtick fence longer than any backtick run inside the content
+ */
+export function codeFence(content: string): string {
+  const longestRun = (content.match(/`+/g) ?? []).reduce(
+    (longest, run) => Math.max(longest, run.length),
+    0,
+  );
+  return "`".repeat(Math.max(3, longestRun + 1));
+}
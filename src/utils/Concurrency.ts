@@ -0,0 +1,57 @@
+/**
+ * Concurrency helpers
+ * Bounded parallel mapping and promise timeouts
+ */
+
+import { TimeoutError } from "../types/index.js";
+
+/**
+ * Map items through an async function with at most `limit` calls in flight
+ * Results keep the order of the input items regardless of completion order
+ */
+export async function mapWithConcurrency<T, R>(
+  items: readonly T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>,
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let nextIndex = 0;
+
+  const worker = async () => {
+    while (nextIndex < items.length) {
+      const index = nextIndex++;
+      results[index] = await fn(items[index], index);
+    }
+  };
+
+  const workerCount = Math.max(1, Math.min(limit, items.length));
+  await Promise.all(Array.from({ length: workerCount }, worker));
+
+  return results;
+}
+
+/**
+ * Reject with TimeoutError if the operation does not settle within `timeoutMs`
+ * The operation receives a signal that is aborted with that error on timeout,
+ * so it can cancel the work still in flight
+ */
+export function withTimeout<T>(
+  operation: (signal: AbortSignal) => Promise<T>,
+  timeoutMs: number,
+  message: string,
+): Promise<T> {
+  const controller = new AbortController();
+  let timer: NodeJS.Timeout | undefined;
+
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      const error = new TimeoutError(message, timeoutMs);
+      reject(error);
+      controller.abort(error);
+    }, timeoutMs);
+  });
+
+  return Promise.race([operation(controller.signal), timeout]).finally(() =>
+    clearTimeout(timer),
+  );
+}
@@ -0,0 +1,180 @@
+/**
+ * Generation parameters
+ * Validates sampling parameters and checks them against a model's capabilities
+ */
+
+import type {
+  GenerationParameterName,
+  GenerationParameters,
+  ModelConfig,
+  ReasoningEffort,
+} from "../types/index.js";
+import { InvalidParametersError, ProviderType } from "../types/index.js";
+
+export const GENERATION_PARAMETER_NAMES: readonly GenerationParameterName[] = [
+  "temperature",
+  "max_tokens",
+  "top_p",
+  "stop",
+  "seed",
+  "reasoning_effort",
+];
+
+export const REASONING_EFFORTS: readonly ReasoningEffort[] = ["low", "medium", "high"];
+
+// Unvalidated input, such as tool arguments or a registry entry
+type GenerationParameterValues = { [K in GenerationParameterName]?: unknown };
+
+// OpenAI and OpenRouter accept at most four stop sequences
+const MAX_STOP_SEQUENCES = 4;
+
+// Parameters a provider's API has no equivalent for
+const UNSUPPORTED_BY_PROVIDER: Partial<Record<ProviderType, GenerationParameterName[]>> = {
+  [ProviderType.ANTHROPIC]: ["seed", "reasoning_effort"],
+  [ProviderType.OLLAMA]: ["reasoning_effort"],
+};
+
+/**
+ * Validate the generation parameters present in an object
+ * Problems are reported rather than thrown so registry loading can list them all;
+ * `at` prefixes each problem with where the values came from.
+ */
+export function checkGenerationParameters(
+  values: GenerationParameterValues,
+  at: string = "",
+): { parameters: GenerationParameters; problems: string[] } {
+  const parameters: GenerationParameters = {};
+  const problems: string[] = [];
+  const name = (key: string) => (at ? `${at}.${key}` : key);
+
+  const { temperature, max_tokens, top_p, stop, seed, reasoning_effort } = values;
+
+  if (temperature !== undefined) {
+    if (typeof temperature !== "number" || !(temperature >= 0 && temperature <= 2)) {
+      problems.push(`${name("temperature")} must be a number between 0 and 2`);
+    } else {
+      parameters.temperature = temperature;
+    }
+  }
+
+  if (max_tokens !== undefined) {
+    if (!Number.isInteger(max_tokens) || (max_tokens as number) <= 0) {
+      problems.push(`${name("max_tokens")} must be a positive integer`);
+    } else {
+      parameters.max_tokens = max_tokens as number;
+    }
+  }
+
+  if (top_p !== undefined) {
+    if (typeof top_p !== "number" || !(top_p > 0 && top_p <= 1)) {
+      problems.push(`${name("top_p")} must be a number greater than 0 and at most 1`);
+    } else {
+      parameters.top_p = top_p;
+    }
+  }
+
+  if (stop !== undefined) {
+    const sequences = typeof stop === "string" ? [stop] : stop;
+    if (
+      !Array.isArray(sequences) ||
+      sequences.length === 0 ||
+      sequences.length > MAX_STOP_SEQUENCES ||
+      !sequences.every((s) => typeof s === "string" && s.length > 0)
+    ) {
+      problems.push(
+        `${name("stop")} must be a non-empty string or an array of 1 to ${MAX_STOP_SEQUENCES} non-empty strings`,
+      );
+    } else {
+      parameters.stop = sequences;
+    }
+  }
+
+  if (seed !== undefined) {
+    if (!Number.isSafeInteger(seed)) {
+      problems.push(`${name("seed")} must be an integer`);
+    } else {
+      parameters.seed = seed as number;
+    }
+  }
+
+  if (reasoning_effort !== undefined) {
+    if (!REASONING_EFFORTS.includes(reasoning_effort as ReasoningEffort)) {
+      problems.push(`${name("reasoning_effort")} must be one of ${REASONING_EFFORTS.join(", ")}`);
+    } else {
+      parameters.reasoning_effort = reasoning_effort as ReasoningEffort;
+    }
+  }
+
+  return { parameters, problems };
+}
+
+/**
+ * Validate the generation parameters of a request, throwing when any is invalid
+ */
+export function parseGenerationParameters(
+  values: GenerationParameterValues,
+): GenerationParameters {
+  const { parameters, problems } = checkGenerationParameters(values);
+  if (problems.length > 0) {
+    throw new InvalidParametersError(
+      `Invalid generation parameters: ${problems.join("; ")}`,
+      problems,
+    );
+  }
+  return parameters;
+}
+
+/**
+ * Apply a model's defaults under the requested parameters and check that the
+ * model accepts the result
+ * Returns undefined when no parameters apply, so the provider's defaults are used.
+ */
+export function resolveGenerationParameters(
+  requested: GenerationParameters,
+  model: ModelConfig | undefined,
+  modelName: string,
+): GenerationParameters | undefined {
+  const parameters: GenerationParameters = { ...model?.defaults, ...requested };
+  const names = (Object.keys(parameters) as GenerationParameterName[]).filter(
+    (key) => parameters[key] !== undefined,
+  );
+  if (names.length === 0) {
+    return undefined;
+  }
+
+  const capabilities = model?.capabilities;
+  const unsupportedByProvider =
+    UNSUPPORTED_BY_PROVIDER[model?.provider ?? ProviderType.OPENROUTER] ?? [];
+  const problems: string[] = [];
+  const source = (key: GenerationParameterName) =>
+    key in requested ? key : `${key} (model default)`;
+
+  for (const key of names) {
+    if (unsupportedByProvider.includes(key)) {
+      problems.push(`${source(key)} is not supported by the ${model?.provider} provider`);
+    } else if (key === "reasoning_effort" && capabilities?.reasoning !== true) {
+      problems.push(`${source(key)} requires a reasoning model`);
+    } else if (capabilities?.parameters && !capabilities.parameters.includes(key)) {
+      problems.push(`${source(key)} is not supported by this model`);
+    }
+  }
+
+  if (
+    parameters.max_tokens !== undefined &&
+    model?.contextLength !== undefined &&
+    parameters.max_tokens > model.contextLength
+  ) {
+    problems.push(
+      `${source("max_tokens")} exceeds the model's ${model.contextLength}-token context window`,
+    );
+  }
+
+  if (problems.length > 0) {
+    throw new InvalidParametersError(
+      `Invalid generation parameters for ${modelName}: ${problems.join("; ")}`,
+      problems,
+    );
+  }
+
+  return parameters;
+}
@@ -0,0 +1,106 @@
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { after, before, describe, test } from "node:test";
+import { expandGlob, globToRegExp, isGlob } from "./Glob.js";
+
+describe("isGlob", () => {
+  test("detects wildcards and braces", () => {
+    assert.equal(isGlob("src/*.ts"), true);
+    assert.equal(isGlob("a?.ts"), true);
+    assert.equal(isGlob("{a,b}.ts"), true);
+    assert.equal(isGlob("src/index.ts"), false);
+  });
+});
+
+describe("globToRegExp", () => {
+  const matches = (pattern: string, target: string) => globToRegExp(pattern).test(target);
+
+  test("keeps * and ? within one path segment", () => {
+    assert.equal(matches("src/*.ts", "src/index.ts"), true);
+    assert.equal(matches("src/*.ts", "src/utils/Glob.ts"), false);
+    assert.equal(matches("a?.ts", "ab.ts"), true);
+    assert.equal(matches("a?.ts", "a/.ts"), false);
+  });
+
+  test("lets ** match any number of directories", () => {
+    assert.equal(matches("src/**/*.ts", "src/index.ts"), true);
+    assert.equal(matches("src/**/*.ts", "src/utils/deep/Glob.ts"), true);
+    assert.equal(matches("src/**", "src/utils/Glob.ts"), true);
+  });
+
+  test("expands brace alternatives", () => {
+    assert.equal(matches("*.{ts,md}", "README.md"), true);
+    assert.equal(matches("*.{ts,md}", "index.js"), false);
+  });
+
+  test("escapes regular expression characters", () => {
+    assert.equal(matches("a+b(1).ts", "a+b(1).ts"), true);
+    assert.equal(matches("a.ts", "abts"), false);
+  });
+
+  test("does not match dotfiles or dot-directories with wildcards", () => {
+    assert.equal(matches("*", ".env"), false);
+    assert.equal(matches("**/*", ".git/config"), false);
+    assert.equal(matches("src/**/*", "src/.secrets/key.pem"), false);
+    assert.equal(matches("**", ".npmrc"), false);
+    assert.equal(matches("?env", ".env"), false);
+    assert.equal(matches("{*,x}", ".env"), false);
+  });
+
+  test("matches dotfiles the pattern names explicitly", () => {
+    assert.equal(matches(".env", ".env"), true);
+    assert.equal(matches(".github/**/*.yml", ".github/workflows/ci.yml"), true);
+    assert.equal(matches("src/.*", "src/.eslintrc"), true);
+    // A dot inside a name is fine
+    assert.equal(matches("*.ts", "index.test.ts"), true);
+  });
+});
+
+describe("expandGlob", () => {
+  let root: string;
+
+  before(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), "glob-test-"));
+    for (const file of [
+      "src/a.ts",
+      "src/b.md",
+      "src/nested/c.ts",
+      "src/.hidden/d.ts",
+      "node_modules/pkg/e.ts",
+      ".env",
+    ]) {
+      fs.mkdirSync(path.dirname(path.join(root, file)), { recursive: true });
+      fs.writeFileSync(path.join(root, file), file);
+    }
+    fs.symlinkSync(path.join(root, "src/a.ts"), path.join(root, "src/link.ts"));
+  });
+
+  after(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  const expand = (pattern: string, limit = 100) =>
+    expandGlob(path.join(root, pattern), limit).map((file) =>
+      path.relative(root, file).split(path.sep).join("/"),
+    );
+
+  test("returns matching files in name order", () => {
+    assert.deepEqual(expand("src/*.ts"), ["src/a.ts", "src/link.ts"]);
+    assert.deepEqual(expand("src/**/*.ts"), ["src/a.ts", "src/link.ts", "src/nested/c.ts"]);
+  });
+
+  test("skips node_modules, dotfiles and dot-directories", () => {
+    assert.deepEqual(expand("**/*"), [
+      "src/a.ts",
+      "src/b.md",
+      "src/link.ts",
+      "src/nested/c.ts",
+    ]);
+  });
+
+  test("stops after the limit", () => {
+    assert.equal(expand("**/*", 2).length, 2);
+  });
+});
@@ -0,0 +1,128 @@
+/**
+ * Glob helpers
+ * Minimal path globbing for file attachments: *, ?, ** and {a,b}
+ */
+
+import fs from "node:fs";
+import path from "node:path";
+
+// Directories never descended into by a wildcard
+const IGNORED_DIRECTORIES = new Set([".git", "node_modules"]);
+// A path segment not starting with "."
+const NO_DOT_SEGMENT = "(?!\\.)[^/]*";
+
+/**
+ * Check whether a pattern contains glob syntax
+ */
+export function isGlob(pattern: string): boolean {
+  return /[*?{]/.test(pattern);
+}
+
+/**
+ * Convert a glob pattern over "/"-separated paths to a RegExp
+ * `*` and `?` never match "/", while `**` matches any number of directories.
+ * Wildcards never match a leading "." in a file or directory name, so dotfiles
+ * such as .env are only matched when the pattern names the dot itself.
+ */
+export function globToRegExp(pattern: string): RegExp {
+  let source = "";
+  let braceDepth = 0;
+
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    const previous = pattern[i - 1];
+    const segmentStart =
+      i === 0 ||
+      previous === "/" ||
+      (braceDepth > 0 && (previous === "{" || previous === ","));
+
+    if (char === "*") {
+      if (pattern[i + 1] === "*") {
+        // "**/" matches zero or more directories; a trailing "**" matches anything
+        const slash = pattern[i + 2] === "/";
+        source += slash
+          ? `(?:${NO_DOT_SEGMENT}/)*`
+          : `${NO_DOT_SEGMENT}(?:/${NO_DOT_SEGMENT})*`;
+        i += slash ? 2 : 1;
+      } else {
+        source += segmentStart ? NO_DOT_SEGMENT : "[^/]*";
+      }
+    } else if (char === "?") {
+      source += segmentStart ? "[^./]" : "[^/]";
+    } else if (char === "{") {
+      braceDepth++;
+      source += "(?:";
+    } else if (char === "}" && braceDepth > 0) {
+      braceDepth--;
+      source += ")";
+    } else if (char === "," && braceDepth > 0) {
+      source += "|";
+    } else {
+      source += char.replace(/[.+^$()|[\]\\]/g, "\\$&");
+    }
+  }
+
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * Expand an absolute glob pattern to the files it matches
+ * Walks only below the pattern's non-wildcard prefix and stops after `limit` matches.
+ * Symlinks to files are matched by their own path; callers must check where
+ * they lead. Symlinked directories are not followed.
+ */
+export function expandGlob(absolutePattern: string, limit: number): string[] {
+  const segments = absolutePattern.split(path.sep);
+  const firstWildcard = segments.findIndex(isGlob);
+  const baseDir = segments.slice(0, firstWildcard).join(path.sep) || path.sep;
+  const wildcardSegments = segments.slice(firstWildcard);
+  const matcher = globToRegExp(wildcardSegments.join("/"));
+  // Without "**" a match can be no deeper than the pattern itself
+  const maxDepth = wildcardSegments.some((segment) => segment.includes("**"))
+    ? Infinity
+    : wildcardSegments.length - 1;
+
+  const matches: string[] = [];
+  const walk = (dir: string, relative: string, depth: number) => {
+    let entries: fs.Dirent[];
+    try {
+      entries = fs.readdirSync(dir, { withFileTypes: true });
+    } catch {
+      return;
+    }
+
+    entries.sort((a, b) => (a.name < b.name ? -1 : a.name > b.name ? 1 : 0));
+    for (const entry of entries) {
+      if (matches.length >= limit) {
+        return;
+      }
+
+      const entryRelative = relative ? `${relative}/${entry.name}` : entry.name;
+      const entryPath = path.join(dir, entry.name);
+      if (entry.isDirectory()) {
+        if (depth < maxDepth && !IGNORED_DIRECTORIES.has(entry.name)) {
+          walk(entryPath, entryRelative, depth + 1);
+        }
+      } else if (
+        (entry.isFile() || (entry.isSymbolicLink() && isFileLink(entryPath))) &&
+        matcher.test(entryRelative)
+      ) {
+        matches.push(entryPath);
+      }
+    }
+  };
+
+  walk(baseDir, "", 0);
+  return matches;
+}
+
+/**
+ * Whether a symlink leads to a regular file
+ */
+function isFileLink(linkPath: string): boolean {
+  try {
+    return fs.statSync(linkPath).isFile();
+  } catch {
+    return false;
+  }
+}
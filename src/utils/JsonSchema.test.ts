@@ -0,0 +1,65 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import { InvalidParametersError } from "../types/index.js";
+import { compileResponseSchema, extractJson } from "./JsonSchema.js";
+
+const schema = {
+  type: "object",
+  properties: {
+    verdict: { type: "string", enum: ["approve", "reject"] },
+    score: { type: "number" },
+  },
+  required: ["verdict", "score"],
+  additionalProperties: false,
+};
+
+describe("extractJson", () => {
+  test("parses plain JSON", () => {
+    assert.deepEqual(extractJson(' {"a": 1} '), { value: { a: 1 } });
+  });
+
+  test("strips a markdown code fence", () => {
+    assert.deepEqual(extractJson('```json\n[1, 2]\n```'), { value: [1, 2] });
+  });
+
+  test("finds an object surrounded by prose", () => {
+    assert.deepEqual(extractJson('Here you go: {"a": {"b": true}}. Done.'), {
+      value: { a: { b: true } },
+    });
+  });
+
+  test("reports text without JSON", () => {
+    const result = extractJson("no json here");
+    assert.ok("error" in result);
+    assert.match(result.error, /^The answer is not valid JSON/);
+  });
+});
+
+describe("compileResponseSchema", () => {
+  test("accepts a matching answer and returns the parsed value", () => {
+    const result = compileResponseSchema(schema).validate('{"verdict": "approve", "score": 0.9}');
+    assert.deepEqual(result, {
+      valid: true,
+      value: { verdict: "approve", score: 0.9 },
+      errors: [],
+    });
+  });
+
+  test("reports every violation with its location", () => {
+    const result = compileResponseSchema(schema).validate('{"verdict": "maybe", "extra": 1}');
+
+    assert.equal(result.valid, false);
+    assert.deepEqual(result.errors.sort(), [
+      '(root) must NOT have additional properties: "extra"',
+      "(root) must have required property 'score'",
+      "/verdict must be equal to one of the allowed values",
+    ]);
+  });
+
+  test("rejects invalid schemas", () => {
+    assert.throws(
+      () => compileResponseSchema({ type: "not-a-type" }),
+      InvalidParametersError,
+    );
+  });
+});
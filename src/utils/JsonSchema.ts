@@ -0,0 +1,95 @@
+/**
+ * JSON Schema helpers
+ * Compiles response schemas and checks model answers against them
+ */
+
+import { Ajv, type ErrorObject } from "ajv";
+import type { SchemaValidationResult } from "../types/index.js";
+import { InvalidParametersError } from "../types/index.js";
+
+// Keeps repair prompts short when an answer is far off the schema
+const MAX_REPORTED_ERRORS = 10;
+
+export interface CompiledResponseSchema {
+  schema: Record<string, unknown>;
+  validate: (text: string) => SchemaValidationResult; // Checks raw model output
+}
+
+/**
+ * Compile a response schema into a validator for raw model output
+ * Throws InvalidParametersError when the schema itself is invalid.
+ */
+export function compileResponseSchema(
+  schema: Record<string, unknown>,
+): CompiledResponseSchema {
+  // A fresh instance per schema, so schemas reusing an $id never collide
+  const ajv = new Ajv({ allErrors: true, strict: false });
+
+  let validate: ReturnType<Ajv["compile"]>;
+  try {
+    validate = ajv.compile(schema);
+  } catch (error) {
+    throw new InvalidParametersError(
+      `response_schema is not a valid JSON Schema: ${error instanceof Error ? error.message : String(error)}`,
+    );
+  }
+
+  return {
+    schema,
+    validate: (text) => {
+      const extracted = extractJson(text);
+      if ("error" in extracted) {
+        return { valid: false, errors: [extracted.error] };
+      }
+
+      if (validate(extracted.value)) {
+        return { valid: true, value: extracted.value, errors: [] };
+      }
+
+      return {
+        valid: false,
+        errors: (validate.errors ?? []).slice(0, MAX_REPORTED_ERRORS).map(formatError),
+      };
+    },
+  };
+}
+
+/**
+ * Parse the JSON value in a model answer
+ * Tolerates a surrounding markdown code fence or prose around a single object or array.
+ */
+export function extractJson(text: string): { value: unknown } | { error: string } {
+  const trimmed = text.trim();
+  const fenced = trimmed.match(/^```[\w-]*\n([\s\S]*?)\n?```$/);
+  const candidates = [fenced ? fenced[1] : trimmed];
+
+  // Fall back to the outermost braces or brackets
+  const start = trimmed.search(/[{[]/);
+  const end = Math.max(trimmed.lastIndexOf("}"), trimmed.lastIndexOf("]"));
+  if (start !== -1 && end > start) {
+    candidates.push(trimmed.slice(start, end + 1));
+  }
+
+  let firstError = "";
+  for (const candidate of candidates) {
+    try {
+      return { value: JSON.parse(candidate) };
+    } catch (error) {
+      firstError ||= error instanceof Error ? error.message : String(error);
+    }
+  }
+
+  return { error: `The answer is not valid JSON: ${firstError}` };
+}
+
+/**
+ * Describe one validation error with the path of the offending value
+ */
+function formatError(error: ErrorObject): string {
+  const location = error.instancePath || "(root)";
+  const detail =
+    error.keyword === "additionalProperties"
+      ? `${error.message}: "${(error.params as { additionalProperty: string }).additionalProperty}"`
+      : error.message;
+  return `${location} ${detail}`;
+}
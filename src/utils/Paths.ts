@@ -0,0 +1,19 @@
+/**
+ * Path helpers
+ * Containment checks for allowlisted root directories
+ */
+
+import path from "node:path";
+
+/**
+ * Check whether a path is the root itself or below it
+ */
+export function isWithin(root: string, target: string): boolean {
+  const relative = path.relative(root, target);
+  return (
+    relative === "" ||
+    (relative !== ".." &&
+      !relative.startsWith(`..${path.sep}`) &&
+      !path.isAbsolute(relative))
+  );
+}
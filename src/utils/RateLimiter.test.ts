@@ -0,0 +1,101 @@
+import assert from "node:assert/strict";
+import { afterEach, beforeEach, describe, mock, test } from "node:test";
+import { RateLimitError } from "../types/index.js";
+import { RateLimiter } from "./RateLimiter.js";
+
+describe("RateLimiter", () => {
+  beforeEach(() => {
+    mock.timers.enable({ apis: ["Date"], now: 0 });
+  });
+
+  afterEach(() => {
+    mock.timers.reset();
+  });
+
+  test("allows a burst up to the per-minute request budget", () => {
+    const limiter = new RateLimiter(3);
+
+    for (let i = 0; i < 3; i++) {
+      limiter.acquire("client");
+    }
+
+    assert.throws(() => limiter.acquire("client"), (error) => {
+      assert.ok(error instanceof RateLimitError);
+      assert.match(error.message, /request budget/);
+      assert.equal(error.waitTimeSeconds, 20);
+      return true;
+    });
+  });
+
+  test("refills requests continuously", () => {
+    const limiter = new RateLimiter(60);
+    for (let i = 0; i < 60; i++) {
+      limiter.acquire("client");
+    }
+    assert.throws(() => limiter.acquire("client"), RateLimitError);
+
+    mock.timers.tick(1000);
+
+    limiter.acquire("client");
+    assert.equal(limiter.getRemaining("client").requests_remaining, 0);
+  });
+
+  test("keeps separate buckets per client", () => {
+    const limiter = new RateLimiter(1);
+
+    limiter.acquire("a");
+
+    assert.throws(() => limiter.acquire("a"), RateLimitError);
+    assert.doesNotThrow(() => limiter.acquire("b"));
+  });
+
+  test("enforces the token budget and takes nothing from a refused call", () => {
+    const limiter = new RateLimiter(10, 1000);
+
+    limiter.acquire("client", 800);
+
+    assert.throws(() => limiter.acquire("client", 300), /token budget/);
+    assert.deepEqual(limiter.getRemaining("client"), {
+      requests_remaining: 9,
+      requests_per_minute: 10,
+      tokens_remaining: 200,
+      tokens_per_minute: 1000,
+    });
+  });
+
+  test("caps estimates above the token budget so the call can still run", () => {
+    const limiter = new RateLimiter(10, 1000);
+
+    assert.doesNotThrow(() => limiter.acquire("client", 5000));
+    assert.equal(limiter.getRemaining("client").tokens_remaining, 0);
+  });
+
+  test("settles estimates with the actual usage, leaving debt for overruns", () => {
+    const limiter = new RateLimiter(10, 1000);
+
+    limiter.acquire("client", 500);
+    limiter.settle("client", 500, 100);
+    assert.equal(limiter.getRemaining("client").tokens_remaining, 900);
+
+    limiter.acquire("client", 100);
+    limiter.settle("client", 100, 1500);
+    assert.equal(limiter.getRemaining("client").tokens_remaining, 0);
+    assert.throws(() => limiter.acquire("client", 1), /token budget/);
+
+    // A debt of 600 tokens takes 36s to repay at 1000 tokens per minute
+    mock.timers.tick(36000);
+    assert.throws(() => limiter.acquire("client", 10), /token budget/);
+    mock.timers.tick(1000);
+    assert.doesNotThrow(() => limiter.acquire("client", 10));
+  });
+
+  test("leaves tokens unlimited without a token budget", () => {
+    const limiter = new RateLimiter(10);
+
+    assert.doesNotThrow(() => limiter.acquire("client", 1_000_000));
+    assert.deepEqual(limiter.getRemaining("client"), {
+      requests_remaining: 9,
+      requests_per_minute: 10,
+    });
+  });
+});
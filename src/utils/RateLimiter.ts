@@ -1,52 +1,87 @@
 /**
  * Rate limiter implementation
- * Enforces request limits per identifier (user, IP, conversation, etc.)
+ * Token buckets per client enforce requests-per-minute and tokens-per-minute
+ * budgets on upstream model calls
  */
 
-import type { IRateLimiter, RateLimitEntry } from "../types/index.js";
+import type {
+  IRateLimiter,
+  RateLimitEntry,
+  RateLimitStatus,
+} from "../types/index.js";
 import { RateLimitError } from "../types/index.js";
 
+// Both buckets refill completely over one minute
+const WINDOW_MS = 60000;
+
 export class RateLimiter implements IRateLimiter {
   private limitMap: Map<string, RateLimitEntry>;
   private readonly requestsPerMinute: number;
-  private readonly windowMs: number;
+  private readonly tokensPerMinute: number;
 
-  constructor(requestsPerMinute: number = 20) {
+  /**
+   * A tokensPerMinute of 0 leaves token usage unlimited
+   */
+  constructor(requestsPerMinute: number = 20, tokensPerMinute: number = 0) {
     this.limitMap = new Map();
     this.requestsPerMinute = requestsPerMinute;
-    this.windowMs = 60000; // 1 minute
+    this.tokensPerMinute = tokensPerMinute;
   }
 
   /**
-   * Check if request is within rate limit
-   * Throws RateLimitError if limit exceeded
+   * Take one request and the estimated tokens of an upstream call from the
+   * client's buckets
+   * Throws RateLimitError, taking nothing, if either bucket is short. An estimate
+   * above the token budget is capped so the call can run once the bucket is full.
    */
-  public checkLimit(identifier: string = "global"): void {
+  public acquire(identifier: string, estimatedTokens: number = 0): void {
     const now = Date.now();
-    const entry = this.limitMap.get(identifier);
-
-    // Reset or create new entry if expired or doesn't exist
-    if (!entry || now > entry.resetTime) {
-      this.limitMap.set(identifier, {
-        count: 1,
-        resetTime: now + this.windowMs,
-      });
-      return;
-    }
+    this.prune(now);
+    const entry = this.refill(identifier, now);
+    const tokens = this.tokensPerMinute > 0
+      ? Math.min(estimatedTokens, this.tokensPerMinute)
+      : 0;
+
+    const waitMs = Math.max(
+      entry.requests >= 1
+        ? 0
+        : ((1 - entry.requests) * WINDOW_MS) / this.requestsPerMinute,
+      entry.tokens >= tokens
+        ? 0
+        : ((tokens - entry.tokens) * WINDOW_MS) / this.tokensPerMinute,
+    );
 
-    // Check if limit exceeded
-    if (entry.count >= this.requestsPerMinute) {
-      const waitTimeMs = entry.resetTime - now;
-      const waitTimeSeconds = Math.ceil(waitTimeMs / 1000);
+    if (waitMs > 0) {
+      const waitTimeSeconds = Math.ceil(waitMs / 1000);
+      const budget = entry.requests >= 1 ? "token" : "request";
       throw new RateLimitError(
-        `Rate limit exceeded. Please wait ${waitTimeSeconds} seconds before making another request.`,
+        `Rate limit exceeded (${budget} budget). Please wait ${waitTimeSeconds} seconds before making another request.`,
         waitTimeSeconds,
       );
     }
 
-    // Increment counter
-    entry.count++;
-    this.limitMap.set(identifier, entry);
+    entry.requests -= 1;
+    entry.tokens -= tokens;
+  }
+
+  /**
+   * Replace a call's token estimate with the tokens it actually used
+   * Calls that used more than estimated leave the bucket in debt, delaying later calls.
+   */
+  public settle(
+    identifier: string,
+    estimatedTokens: number,
+    actualTokens: number,
+  ): void {
+    if (this.tokensPerMinute <= 0) {
+      return;
+    }
+
+    const entry = this.refill(identifier, Date.now());
+    entry.tokens = Math.min(
+      entry.tokens + Math.min(estimatedTokens, this.tokensPerMinute) - actualTokens,
+      this.tokensPerMinute,
+    );
   }
 
   /**
@@ -64,22 +99,70 @@ export class RateLimiter implements IRateLimiter {
   }
 
   /**
-   * Get current count for an identifier
+   * Get the requests and tokens an identifier may still use right now
    */
-  public getCount(identifier: string): number {
-    const entry = this.limitMap.get(identifier);
-    if (!entry || Date.now() > entry.resetTime) {
-      return 0;
+  public getRemaining(identifier: string): RateLimitStatus {
+    const entry = this.limitMap.has(identifier)
+      ? this.refill(identifier, Date.now())
+      : undefined;
+
+    return {
+      requests_remaining: Math.floor(entry?.requests ?? this.requestsPerMinute),
+      requests_per_minute: this.requestsPerMinute,
+      ...(this.tokensPerMinute > 0
+        ? {
+            tokens_remaining: Math.max(
+              0,
+              Math.floor(entry?.tokens ?? this.tokensPerMinute),
+            ),
+            tokens_per_minute: this.tokensPerMinute,
+          }
+        : {}),
+    };
+  }
+
+  /**
+   * Get an identifier's buckets, topped up for the time since they were last used
+   */
+  private refill(identifier: string, now: number): RateLimitEntry {
+    let entry = this.limitMap.get(identifier);
+
+    if (!entry) {
+      entry = {
+        requests: this.requestsPerMinute,
+        tokens: this.tokensPerMinute,
+        updatedAt: now,
+      };
+      this.limitMap.set(identifier, entry);
+      return entry;
     }
-    return entry.count;
+
+    const elapsed = Math.max(now - entry.updatedAt, 0);
+    entry.requests = Math.min(
+      entry.requests + (elapsed * this.requestsPerMinute) / WINDOW_MS,
+      this.requestsPerMinute,
+    );
+    entry.tokens = Math.min(
+      entry.tokens + (elapsed * this.tokensPerMinute) / WINDOW_MS,
+      this.tokensPerMinute,
+    );
+    entry.updatedAt = now;
+    return entry;
   }
 
   /**
-   * Get remaining requests for an identifier
+   * Forget clients idle long enough for their buckets to be full again
+   * Token debt takes longer to repay, so those entries are kept until it is.
    */
-  public getRemaining(identifier: string): number {
-    const count = this.getCount(identifier);
-    return Math.max(0, this.requestsPerMinute - count);
+  private prune(now: number): void {
+    for (const [identifier, entry] of this.limitMap) {
+      const idleMs = now - entry.updatedAt;
+      const debtMs = entry.tokens < 0
+        ? (-entry.tokens * WINDOW_MS) / this.tokensPerMinute
+        : 0;
+      if (idleMs > WINDOW_MS + debtMs) {
+        this.limitMap.delete(identifier);
+      }
+    }
   }
 }
-
@@ -0,0 +1,111 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import { ApiError, TimeoutError } from "../types/index.js";
+import { RetryPolicy, isRetryableError, retryAfterFromHeaders } from "./RetryPolicy.js";
+
+// No jitter and no real waiting beyond a millisecond per retry
+const policy = (retries: number, maxTotalMs = 1000) =>
+  new RetryPolicy({ retries, baseDelayMs: 1, maxTotalMs }, () => 1);
+
+describe("RetryPolicy", () => {
+  test("returns the first successful attempt with the attempt count", async () => {
+    let calls = 0;
+    const result = await policy(3).execute(async (attempt) => {
+      calls++;
+      if (attempt < 3) {
+        throw new ApiError("unavailable", 503);
+      }
+      return "ok";
+    });
+
+    assert.deepEqual(result, { value: "ok", attempts: 3 });
+    assert.equal(calls, 3);
+  });
+
+  test("throws the last error unchanged once the retries are used up", async () => {
+    const errors: ApiError[] = [];
+    await assert.rejects(
+      policy(2).execute(async (attempt) => {
+        const error = new ApiError(`attempt ${attempt}`, 502);
+        errors.push(error);
+        throw error;
+      }),
+      (error) => error === errors[2],
+    );
+    assert.equal(errors.length, 3);
+  });
+
+  test("does not retry errors the predicate rejects", async () => {
+    let calls = 0;
+    await assert.rejects(
+      policy(3).execute(async () => {
+        calls++;
+        throw new ApiError("bad request", 400);
+      }),
+      /bad request/,
+    );
+    assert.equal(calls, 1);
+  });
+
+  test("gives up when the next delay would exceed the time budget", async () => {
+    let calls = 0;
+    await assert.rejects(
+      policy(5, 100).execute(async () => {
+        calls++;
+        throw new ApiError("slow down", 429, undefined, 60000);
+      }),
+      /slow down/,
+    );
+    assert.equal(calls, 1);
+  });
+});
+
+describe("isRetryableError", () => {
+  test("retries timeouts, rate limits, server errors and network failures", () => {
+    assert.equal(isRetryableError(new TimeoutError("timed out", 10)), true);
+    assert.equal(isRetryableError(new ApiError("rate limited", 429)), true);
+    assert.equal(isRetryableError(new ApiError("bad gateway", 502)), true);
+    assert.equal(isRetryableError(new ApiError("network", undefined, new Error("ECONNRESET"))), true);
+  });
+
+  test("does not retry client errors or local failures", () => {
+    assert.equal(isRetryableError(new ApiError("unauthorized", 401)), false);
+    assert.equal(isRetryableError(new ApiError("unprocessable", 422)), false);
+    assert.equal(isRetryableError(new ApiError("provider not configured")), false);
+    assert.equal(isRetryableError(new Error("plain")), false);
+  });
+});
+
+describe("retryAfterFromHeaders", () => {
+  const now = Date.parse("2025-01-01T00:00:00Z");
+
+  test("reads Retry-After in seconds or as an HTTP date", () => {
+    assert.equal(retryAfterFromHeaders({ "Retry-After": "2" }, now), 2000);
+    assert.equal(
+      retryAfterFromHeaders({ "retry-after": "Wed, 01 Jan 2025 00:00:05 GMT" }, now),
+      5000,
+    );
+  });
+
+  test("prefers retry-after-ms", () => {
+    assert.equal(retryAfterFromHeaders({ "retry-after-ms": "150.5", "retry-after": "9" }, now), 151);
+  });
+
+  test("uses X-RateLimit-Reset only once the limit is used up", () => {
+    assert.equal(
+      retryAfterFromHeaders({ "x-ratelimit-reset": String(now + 3000), "x-ratelimit-remaining": "0" }, now),
+      3000,
+    );
+    assert.equal(
+      retryAfterFromHeaders({ "x-ratelimit-reset": String(now + 3000), "x-ratelimit-remaining": "4" }, now),
+      undefined,
+    );
+    // Epoch seconds are accepted too
+    assert.equal(retryAfterFromHeaders({ "x-ratelimit-reset": String(now / 1000 + 1) }, now), 1000);
+  });
+
+  test("ignores missing or malformed headers", () => {
+    assert.equal(retryAfterFromHeaders(undefined, now), undefined);
+    assert.equal(retryAfterFromHeaders({ "retry-after": "soon" }, now), undefined);
+  });
+});
@@ -0,0 +1,138 @@
+/**
+ * Retry policy for upstream model calls
+ * Retries transient failures with jittered exponential backoff, honoring the
+ * delays rate-limited providers ask for, within a per-request time budget
+ */
+
+import type { IRetryPolicy, RetryOptions, RetryResult } from "../types/index.js";
+import { ApiError, TimeoutError } from "../types/index.js";
+
+// Longest backoff between two attempts, however many retries are allowed
+const MAX_BACKOFF_MS = 30000;
+
+export class RetryPolicy implements IRetryPolicy {
+  constructor(
+    private readonly options: RetryOptions,
+    private readonly random: () => number = Math.random,
+  ) {}
+
+  /**
+   * Run an action, retrying it while the error is retryable and time remains
+   * The last error is thrown unchanged when the policy gives up.
+   */
+  public async execute<T>(
+    action: (attempt: number) => Promise<T>,
+    canRetry: (error: unknown) => boolean = isRetryableError,
+  ): Promise<RetryResult<T>> {
+    const startTime = Date.now();
+
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return { value: await action(attempt), attempts: attempt };
+      } catch (error) {
+        if (attempt > this.options.retries || !canRetry(error)) {
+          throw error;
+        }
+
+        const delay = this.delayFor(error, attempt);
+        const elapsed = Date.now() - startTime;
+        if (elapsed + delay > this.options.maxTotalMs) {
+          console.error(
+            `[Retry] Giving up after ${attempt} attempt(s): waiting ${delay}ms would exceed the ${this.options.maxTotalMs}ms retry budget`,
+          );
+          throw error;
+        }
+
+        console.error(
+          `[Retry] Attempt ${attempt} failed (${error instanceof Error ? error.message : String(error)}); retrying in ${delay}ms`,
+        );
+        await new Promise((resolve) => setTimeout(resolve, delay));
+      }
+    }
+  }
+
+  /**
+   * Delay before the next attempt
+   * Exponential backoff with equal jitter, so concurrent requests spread out;
+   * a delay requested by the provider is never shortened.
+   */
+  private delayFor(error: unknown, attempt: number): number {
+    const backoff = Math.min(
+      this.options.baseDelayMs * 2 ** (attempt - 1),
+      MAX_BACKOFF_MS,
+    );
+    const jittered = Math.round(backoff / 2 + (this.random() * backoff) / 2);
+    const requested = error instanceof ApiError ? error.retryAfterMs : undefined;
+    return requested !== undefined ? Math.max(requested, jittered) : jittered;
+  }
+}
+
+/**
+ * Whether a failed upstream call may succeed when repeated
+ * Timeouts, network failures, rate limits and server errors are retried. An
+ * ApiError with neither a status nor a cause comes from this server itself,
+ * e.g. an unconfigured provider, so repeating it cannot help.
+ */
+export function isRetryableError(error: unknown): boolean {
+  if (error instanceof TimeoutError) {
+    return true;
+  }
+
+  if (error instanceof ApiError) {
+    return error.statusCode !== undefined
+      ? error.retryable
+      : error.originalError !== undefined;
+  }
+
+  return false;
+}
+
+/**
+ * Read how long a provider asks clients to wait from its response headers
+ * Understands Retry-After (seconds or an HTTP date), retry-after-ms and
+ * OpenRouter's X-RateLimit-Reset (epoch milliseconds, sent once the limit is used up).
+ */
+export function retryAfterFromHeaders(
+  headers: Record<string, unknown> | undefined,
+  now: number = Date.now(),
+): number | undefined {
+  if (!headers) {
+    return undefined;
+  }
+
+  const header = (name: string): string | undefined => {
+    const entry = Object.entries(headers).find(
+      ([key]) => key.toLowerCase() === name,
+    );
+    const value = Array.isArray(entry?.[1]) ? entry[1][0] : entry?.[1];
+    return value === undefined || value === null ? undefined : String(value).trim();
+  };
+
+  const retryAfterMs = header("retry-after-ms");
+  if (retryAfterMs && Number(retryAfterMs) >= 0) {
+    return Math.ceil(Number(retryAfterMs));
+  }
+
+  const retryAfter = header("retry-after");
+  if (retryAfter) {
+    const seconds = Number(retryAfter);
+    if (Number.isFinite(seconds)) {
+      return seconds >= 0 ? Math.ceil(seconds * 1000) : undefined;
+    }
+    const date = Date.parse(retryAfter);
+    if (!Number.isNaN(date)) {
+      return Math.max(date - now, 0);
+    }
+  }
+
+  // A reset time only matters once the window's requests are used up
+  const reset = Number(header("x-ratelimit-reset"));
+  const remaining = header("x-ratelimit-remaining");
+  if (reset > 0 && (remaining === undefined || Number(remaining) <= 0)) {
+    // Some gateways send epoch seconds rather than milliseconds
+    const resetAt = reset < 1e12 ? reset * 1000 : reset;
+    return Math.max(Math.ceil(resetAt - now), 0);
+  }
+
+  return undefined;
+}
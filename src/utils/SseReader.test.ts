@@ -0,0 +1,54 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import { readSseData } from "./SseReader.js";
+
+async function* streamOf(chunks: Array<Buffer | string>): AsyncGenerator<Buffer | string> {
+  yield* chunks;
+}
+
+async function collect(
+  chunks: Array<Buffer | string>,
+  onActivity?: () => void,
+): Promise<string[]> {
+  const events: string[] = [];
+  for await (const data of readSseData(streamOf(chunks), onActivity)) {
+    events.push(data);
+  }
+  return events;
+}
+
+describe("readSseData", () => {
+  test("yields the data of each event", async () => {
+    assert.deepEqual(await collect(['data: {"a":1}\n\ndata: [DONE]\n\n']), ['{"a":1}', "[DONE]"]);
+  });
+
+  test("joins events split across chunks", async () => {
+    assert.deepEqual(await collect(["da", 'ta: {"a"', ":1}\r\n", "\r\n"]), ['{"a":1}']);
+  });
+
+  test("joins multi-line data with newlines", async () => {
+    assert.deepEqual(await collect(["data: one\ndata: two\n\n"]), ["one\ntwo"]);
+  });
+
+  test("skips comments and other fields", async () => {
+    assert.deepEqual(
+      await collect([": keep-alive\n\nevent: message\nid: 1\ndata:x\n\n"]),
+      ["x"],
+    );
+  });
+
+  test("decodes multi-byte characters split between chunks", async () => {
+    const bytes = Buffer.from("data: héllo\n\n");
+    assert.deepEqual(await collect([bytes.subarray(0, 8), bytes.subarray(8)]), ["héllo"]);
+  });
+
+  test("yields a final event without a trailing blank line", async () => {
+    assert.deepEqual(await collect(["data: last\n"]), ["last"]);
+  });
+
+  test("reports every chunk as activity", async () => {
+    let activity = 0;
+    await collect([": ping\n\n", ": ping\n\n", "data: x\n\n"], () => activity++);
+    assert.equal(activity, 3);
+  });
+});
@@ -0,0 +1,46 @@
+/**
+ * Server-sent events reader
+ * Splits a streamed HTTP body into SSE `data:` payloads
+ */
+
+/**
+ * Read SSE data payloads from a byte stream
+ * Comment lines (keep-alives) are skipped but still count as activity
+ */
+export async function* readSseData(
+  stream: AsyncIterable<Buffer | string>,
+  onActivity?: () => void,
+): AsyncGenerator<string> {
+  const decoder = new TextDecoder();
+  let buffer = "";
+  let dataLines: string[] = [];
+
+  for await (const chunk of stream) {
+    onActivity?.();
+    buffer +=
+      typeof chunk === "string" ? chunk : decoder.decode(chunk, { stream: true });
+
+    let newlineIndex: number;
+    while ((newlineIndex = buffer.indexOf("\n")) >= 0) {
+      const line = buffer.slice(0, newlineIndex).replace(/\r$/, "");
+      buffer = buffer.slice(newlineIndex + 1);
+
+      // Blank line terminates an event
+      if (line === "") {
+        if (dataLines.length > 0) {
+          yield dataLines.join("\n");
+          dataLines = [];
+        }
+        continue;
+      }
+
+      if (line.startsWith("data:")) {
+        dataLines.push(line.slice(5).replace(/^ /, ""));
+      }
+    }
+  }
+
+  if (dataLines.length > 0) {
+    yield dataLines.join("\n");
+  }
+}
@@ -0,0 +1,52 @@
+/**
+ * Text similarity helpers
+ * Normalizes prompts and compares them by word-shingle Jaccard similarity
+ */
+
+const SHINGLE_SIZE = 3;
+
+/**
+ * Normalize a prompt for comparison
+ * Case, Unicode forms and whitespace are ignored; punctuation is kept
+ * as separate tokens so code like `a + b` and `a - b` stays distinct.
+ */
+export function normalizePrompt(text: string): string[] {
+  return text.normalize("NFKC").toLowerCase().match(/[\p{L}\p{N}_]+|[^\s\p{L}\p{N}_]/gu) ?? [];
+}
+
+/**
+ * Build the set of word shingles (n-grams) for a token list
+ * Texts shorter than the shingle size fall back to single tokens
+ */
+export function shingles(tokens: readonly string[], size: number = SHINGLE_SIZE): Set<string> {
+  const result = new Set<string>();
+
+  if (tokens.length < size) {
+    tokens.forEach((token) => result.add(token));
+    return result;
+  }
+
+  for (let i = 0; i <= tokens.length - size; i++) {
+    result.add(tokens.slice(i, i + size).join(" "));
+  }
+  return result;
+}
+
+/**
+ * Jaccard similarity of two sets (1 = identical, 0 = disjoint)
+ */
+export function jaccard(a: ReadonlySet<string>, b: ReadonlySet<string>): number {
+  if (a.size === 0 && b.size === 0) {
+    return 1;
+  }
+
+  const [smaller, larger] = a.size <= b.size ? [a, b] : [b, a];
+  let intersection = 0;
+  for (const item of smaller) {
+    if (larger.has(item)) {
+      intersection++;
+    }
+  }
+
+  return intersection / (a.size + b.size - intersection);
+}
@@ -0,0 +1,80 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import type { OpenRouterMessage } from "../types/index.js";
+import {
+  estimateMessagesTokens,
+  estimateTokens,
+  fitConversationToTokenBudget,
+  fitToTokenBudget,
+} from "./TokenBudget.js";
+
+const message = (role: OpenRouterMessage["role"], tokens: number): OpenRouterMessage => ({
+  role,
+  content: "x".repeat(tokens * 4),
+});
+
+// Each turn costs 2 * (10 + 4 overhead) = 28 tokens
+const turns = (count: number): OpenRouterMessage[] =>
+  Array.from({ length: count }, () => [message("user", 10), message("assistant", 10)]).flat();
+
+describe("estimateTokens", () => {
+  test("counts about four characters per token, rounding up", () => {
+    assert.equal(estimateTokens(""), 0);
+    assert.equal(estimateTokens("abcd"), 1);
+    assert.equal(estimateTokens("abcde"), 2);
+  });
+
+  test("adds a per-message overhead", () => {
+    assert.equal(estimateMessagesTokens(turns(1)), 28);
+  });
+});
+
+describe("fitToTokenBudget", () => {
+  test("keeps everything that fits", () => {
+    const messages = turns(3);
+    assert.deepEqual(fitToTokenBudget(messages, 1000), messages);
+  });
+
+  test("drops the oldest messages first", () => {
+    const messages = turns(3);
+    assert.deepEqual(fitToTokenBudget(messages, 60), messages.slice(2));
+  });
+
+  test("never starts on an assistant message", () => {
+    const messages = turns(3);
+    // 70 tokens would fit the last five messages, starting with an assistant reply
+    assert.deepEqual(fitToTokenBudget(messages, 70), messages.slice(2));
+  });
+
+  test("always keeps leading system messages", () => {
+    const system = message("system", 20);
+    const fitted = fitToTokenBudget([system, ...turns(3)], 60);
+    assert.equal(fitted[0], system);
+    assert.equal(fitted.length, 3);
+  });
+});
+
+describe("fitConversationToTokenBudget", () => {
+  test("prunes older turns around the latest one", () => {
+    const messages = turns(3);
+    assert.deepEqual(fitConversationToTokenBudget(messages, 60), messages.slice(2));
+  });
+
+  test("keeps the latest turn truncated when it alone exceeds the budget", () => {
+    const latest = [message("user", 1000), message("assistant", 1000)];
+    const fitted = fitConversationToTokenBudget([...turns(2), ...latest], 500);
+
+    assert.deepEqual(fitted.map((m) => m.role), ["user", "assistant"]);
+    assert.ok(fitted.every((m) => m.content.endsWith("[...truncated]")));
+    assert.ok(estimateMessagesTokens(fitted) <= 500);
+  });
+
+  test("does not modify its input", () => {
+    const messages = [message("user", 1000), message("assistant", 1000)];
+    const copy = structuredClone(messages);
+
+    fitConversationToTokenBudget(messages, 100);
+
+    assert.deepEqual(messages, copy);
+  });
+});
@@ -0,0 +1,109 @@
+/**
+ * Token budget helpers
+ * Estimates token counts locally and fits conversation history into a budget
+ */
+
+import type { OpenRouterMessage } from "../types/index.js";
+
+// Rough average for English text and code across common tokenizers
+const CHARS_PER_TOKEN = 4;
+// Role markers and separators added by chat templates
+const MESSAGE_OVERHEAD_TOKENS = 4;
+// Appended to a message cut to fit a budget
+const TRUNCATION_MARKER = "\n[...truncated]";
+
+/**
+ * Estimate the number of tokens in a piece of text
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+/**
+ * Estimate the number of tokens in a list of messages
+ */
+export function estimateMessagesTokens(messages: readonly OpenRouterMessage[]): number {
+  return messages.reduce(
+    (sum, message) => sum + estimateTokens(message.content) + MESSAGE_OVERHEAD_TOKENS,
+    0,
+  );
+}
+
+/**
+ * Drop the oldest messages until the rest fit within `budgetTokens`
+ * Leading system messages are always kept, and the kept history always
+ * starts at a user message so no assistant reply is left without its question.
+ * Returns a new array; the input is not modified.
+ */
+export function fitToTokenBudget<T extends OpenRouterMessage>(
+  messages: readonly T[],
+  budgetTokens: number,
+): T[] {
+  const systemCount = messages.findIndex((m) => m.role !== "system");
+  const system = systemCount === -1 ? [...messages] : messages.slice(0, systemCount);
+  const turns = systemCount === -1 ? [] : messages.slice(systemCount);
+
+  let remaining = budgetTokens - estimateMessagesTokens(system);
+  let start = turns.length;
+
+  // Walk backwards, keeping messages while they fit
+  for (let i = turns.length - 1; i >= 0; i--) {
+    const cost = estimateMessagesTokens([turns[i]]);
+    if (cost > remaining) {
+      break;
+    }
+    remaining -= cost;
+    start = i;
+  }
+
+  // Never start the kept history on an assistant message
+  while (start < turns.length && turns[start].role !== "user") {
+    start++;
+  }
+
+  return [...system, ...turns.slice(start)];
+}
+
+/**
+ * Fit a stored conversation into `budgetTokens`, never losing the latest turn
+ * Older turns are dropped as by fitToTokenBudget; when the latest turn alone
+ * exceeds the budget, its messages are truncated in proportion to their size.
+ * Returns a new array; the input is not modified.
+ */
+export function fitConversationToTokenBudget<T extends OpenRouterMessage>(
+  messages: readonly T[],
+  budgetTokens: number,
+): T[] {
+  const lastUser = messages.map((m) => m.role).lastIndexOf("user");
+  if (lastUser === -1) {
+    return fitToTokenBudget(messages, budgetTokens);
+  }
+
+  const earlier = messages.slice(0, lastUser);
+  const latest = messages.slice(lastUser);
+  const latestTokens = estimateMessagesTokens(latest);
+
+  if (latestTokens <= budgetTokens) {
+    const fitted = fitToTokenBudget(earlier, budgetTokens - latestTokens);
+    return [...fitted, ...latest];
+  }
+
+  // Share the budget out by size, leaving room for the overhead and markers
+  const markerTokens = estimateTokens(TRUNCATION_MARKER);
+  const available = Math.max(
+    budgetTokens - latest.length * (MESSAGE_OVERHEAD_TOKENS + markerTokens),
+    0,
+  );
+  const contentTokens = latestTokens - latest.length * MESSAGE_OVERHEAD_TOKENS;
+  return latest.map((message) => {
+    const share = Math.floor(
+      (available * estimateTokens(message.content)) / Math.max(contentTokens, 1),
+    );
+    return estimateTokens(message.content) <= share
+      ? message
+      : {
+          ...message,
+          content: message.content.slice(0, share * CHARS_PER_TOKEN) + TRUNCATION_MARKER,
+        };
+  });
+}